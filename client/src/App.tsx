@@ -10,6 +10,10 @@ import Dashboard from "@/pages/Dashboard";
 import SearchQueries from "@/pages/SearchQueries";
 import Findings from "@/pages/Findings";
 import ManualScan from "@/pages/ManualScan";
+import ScanRuns from "@/pages/ScanRuns";
+import ReviewQueue from "@/pages/ReviewQueue";
+import Purchases from "@/pages/Purchases";
+import Settings from "@/pages/Settings";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -17,8 +21,12 @@ function Router() {
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/searches" component={SearchQueries} />
+      <Route path="/searches/:id/runs" component={ScanRuns} />
       <Route path="/findings" component={Findings} />
+      <Route path="/review" component={ReviewQueue} />
+      <Route path="/purchases" component={Purchases} />
       <Route path="/manual-scan" component={ManualScan} />
+      <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -17,57 +17,118 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useState } from "react";
+import type { FilterRules } from "@shared/schema";
+
+// "gold tone, goudkleurig" -> ["gold tone", "goudkleurig"]
+function parseList(value: string): string[] | undefined {
+  const items = value.split(",").map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseNumber(value: string): number | undefined {
+  const number = parseFloat(value);
+  return Number.isNaN(number) ? undefined : number;
+}
 
 interface AddSearchDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (data: { url: string; frequency: number; threshold: number }) => void;
-  editData?: { url: string; frequency: number; threshold: number } | null;
+  onSubmit: (data: { url: string; frequency: number; threshold: number; nearMissMin: number; jitter: number; analyzer: string | null; enrichment: string | null; maxPages: number; maxAgeHours: number | null; filterRules: FilterRules | null; triageMinScore: number | null; minMeltValuePercent: number | null }) => void;
+  editData?: { url: string; frequency: number; threshold: number; nearMissMin?: number; jitter?: number; analyzer?: string | null; enrichment?: string | null; maxPages?: number; maxAgeHours?: number | null; filterRules?: FilterRules | null; triageMinScore?: number | null; minMeltValuePercent?: number | null } | null;
 }
 
 export default function AddSearchDialog({ open, onOpenChange, onSubmit, editData }: AddSearchDialogProps) {
   const [url, setUrl] = useState(editData?.url || "");
   const [frequency, setFrequency] = useState(editData?.frequency?.toString() || "3");
   const [threshold, setThreshold] = useState(editData?.threshold?.toString() || "80");
+  const [nearMissMin, setNearMissMin] = useState(editData?.nearMissMin?.toString() || "50");
+  const [jitter, setJitter] = useState(editData?.jitter?.toString() || "15");
+  const [analyzer, setAnalyzer] = useState(editData?.analyzer || "default");
+  const [enrichment, setEnrichment] = useState(editData?.enrichment || "default");
+  const [maxPages, setMaxPages] = useState(editData?.maxPages?.toString() || "1");
+  const [maxAgeHours, setMaxAgeHours] = useState(editData?.maxAgeHours?.toString() || "");
+  const [triageMinScore, setTriageMinScore] = useState(editData?.triageMinScore?.toString() || "");
+  const [minMeltValuePercent, setMinMeltValuePercent] = useState(editData?.minMeltValuePercent?.toString() || "");
+  const rules = editData?.filterRules;
+  const [minPrice, setMinPrice] = useState(rules?.minPrice?.toString() || "");
+  const [maxPrice, setMaxPrice] = useState(rules?.maxPrice?.toString() || "");
+  const [minPhotos, setMinPhotos] = useState(rules?.minPhotos?.toString() || "");
+  const [excludedKeywords, setExcludedKeywords] = useState(rules?.excludedKeywords?.join(", ") || "");
+  const [requiredKeywords, setRequiredKeywords] = useState(rules?.requiredKeywords?.join(", ") || "");
+  const [excludedBrands, setExcludedBrands] = useState(rules?.excludedBrands?.join(", ") || "");
+  const [excludedSellers, setExcludedSellers] = useState(rules?.excludedSellers?.join(", ") || "");
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const filterRules: FilterRules = Object.fromEntries(Object.entries({
+      minPrice: parseNumber(minPrice),
+      maxPrice: parseNumber(maxPrice),
+      minPhotos: parseNumber(minPhotos),
+      excludedKeywords: parseList(excludedKeywords),
+      requiredKeywords: parseList(requiredKeywords),
+      excludedBrands: parseList(excludedBrands),
+      excludedSellers: parseList(excludedSellers),
+    }).filter(([, value]) => value !== undefined));
     onSubmit({
       url,
       frequency: parseInt(frequency),
-      threshold: parseInt(threshold)
+      threshold: parseInt(threshold),
+      nearMissMin: parseInt(nearMissMin),
+      jitter: parseInt(jitter),
+      analyzer: analyzer === "default" ? null : analyzer,
+      enrichment: enrichment === "default" ? null : enrichment,
+      maxPages: parseInt(maxPages),
+      maxAgeHours: maxAgeHours ? parseInt(maxAgeHours) : null,
+      filterRules: Object.keys(filterRules).length > 0 ? filterRules : null,
+      triageMinScore: triageMinScore ? parseInt(triageMinScore) : null,
+      minMeltValuePercent: minMeltValuePercent ? parseInt(minMeltValuePercent) : null
     });
     setUrl("");
     setFrequency("3");
     setThreshold("80");
+    setNearMissMin("50");
+    setJitter("15");
+    setAnalyzer("default");
+    setEnrichment("default");
+    setMaxPages("1");
+    setMaxAgeHours("");
+    setTriageMinScore("");
+    setMinMeltValuePercent("");
+    setMinPrice("");
+    setMaxPrice("");
+    setMinPhotos("");
+    setExcludedKeywords("");
+    setRequiredKeywords("");
+    setExcludedBrands("");
+    setExcludedSellers("");
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[525px]">
+      <DialogContent className="sm:max-w-[525px] max-h-[90vh] overflow-y-auto">
         <form onSubmit={handleSubmit}>
           <DialogHeader>
             <DialogTitle>{editData ? 'Edit' : 'Add'} Search Query</DialogTitle>
             <DialogDescription>
-              {editData ? 'Update' : 'Configure'} your Vinted search URL and scan preferences
+              {editData ? 'Update' : 'Configure'} your Vinted or Marktplaats search URL and scan preferences
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="search-url">Vinted Search URL</Label>
+              <Label htmlFor="search-url">Search URL</Label>
               <Input
                 id="search-url"
                 type="url"
-                placeholder="https://www.vinted.com/catalog?search_text=..."
+                placeholder="https://www.vinted.nl/catalog?search_text=..."
                 value={url}
                 onChange={(e) => setUrl(e.target.value)}
                 required
                 data-testid="input-search-url"
               />
               <p className="text-xs text-muted-foreground">
-                Copy the full URL from your Vinted search results
+                Copy the full URL from your Vinted or Marktplaats search results
               </p>
             </div>
 
@@ -101,6 +162,230 @@ export default function AddSearchDialog({ open, onOpenChange, onSubmit, editData
                 />
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="near-miss-min">Review Queue From (%)</Label>
+              <Input
+                id="near-miss-min"
+                type="number"
+                min="0"
+                max="100"
+                value={nearMissMin}
+                onChange={(e) => setNearMissMin(e.target.value)}
+                data-testid="input-near-miss-min"
+              />
+              <p className="text-xs text-muted-foreground">
+                Listings scoring from here up to the confidence minimum go to the review queue
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="jitter">Timing Jitter</Label>
+                <Select value={jitter} onValueChange={setJitter}>
+                  <SelectTrigger id="jitter" data-testid="select-jitter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">No jitter</SelectItem>
+                    <SelectItem value="15">± 15 minutes</SelectItem>
+                    <SelectItem value="30">± 30 minutes</SelectItem>
+                    <SelectItem value="60">± 60 minutes</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="analyzer">AI Analyzer</Label>
+                <Select value={analyzer} onValueChange={setAnalyzer}>
+                  <SelectTrigger id="analyzer" data-testid="select-analyzer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Server default</SelectItem>
+                    <SelectItem value="openai">OpenAI</SelectItem>
+                    <SelectItem value="ollama">Local (Ollama)</SelectItem>
+                    <SelectItem value="mock">Mock (offline)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Jitter randomly shifts each scan around the frequency to look less like a bot
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="enrichment">Item Page Details</Label>
+              <Select value={enrichment} onValueChange={setEnrichment}>
+                <SelectTrigger id="enrichment" data-testid="select-enrichment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Server default</SelectItem>
+                  <SelectItem value="thin">When the search result is incomplete</SelectItem>
+                  <SelectItem value="always">Always</SelectItem>
+                  <SelectItem value="off">Never (search results only)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Fetches each new listing's page for the full description and all photos before analysis
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="max-pages">Result Pages</Label>
+                <Input
+                  id="max-pages"
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={maxPages}
+                  onChange={(e) => setMaxPages(e.target.value)}
+                  data-testid="input-max-pages"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="max-age">Max Listing Age (hours)</Label>
+                <Input
+                  id="max-age"
+                  type="number"
+                  min="1"
+                  placeholder="No limit"
+                  value={maxAgeHours}
+                  onChange={(e) => setMaxAgeHours(e.target.value)}
+                  data-testid="input-max-age"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Later pages are only read until a page reaches listings analyzed before or older than the max age; sort the search by newest first
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="triage-min-score">Triage Min Score</Label>
+              <Input
+                id="triage-min-score"
+                type="number"
+                min="0"
+                max="100"
+                placeholder="Server default"
+                value={triageMinScore}
+                onChange={(e) => setTriageMinScore(e.target.value)}
+                data-testid="input-triage-min-score"
+              />
+              <p className="text-xs text-muted-foreground">
+                When triage is enabled, only listings whose text scores at least this get the photo analysis
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="min-melt-value">Min Melt Value (% of price)</Label>
+              <Input
+                id="min-melt-value"
+                type="number"
+                min="1"
+                placeholder="Off"
+                value={minMeltValuePercent}
+                onChange={(e) => setMinMeltValuePercent(e.target.value)}
+                data-testid="input-min-melt-value"
+              />
+              <p className="text-xs text-muted-foreground">
+                For listings stating a hallmark and weight, alert when the metal is worth at least this share of the price (spot prices in Settings) instead of using the confidence threshold
+              </p>
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>Filter Rules</Label>
+              <p className="text-xs text-muted-foreground">
+                Listings breaking a rule are skipped before any AI call. Separate terms with commas and list each language ("gold tone, goudkleurig, vergoldet")
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min-price">Min Price</Label>
+                <Input
+                  id="min-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={minPrice}
+                  onChange={(e) => setMinPrice(e.target.value)}
+                  data-testid="input-min-price"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="max-price">Max Price</Label>
+                <Input
+                  id="max-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={maxPrice}
+                  onChange={(e) => setMaxPrice(e.target.value)}
+                  data-testid="input-max-price"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="min-photos">Min Photos</Label>
+                <Input
+                  id="min-photos"
+                  type="number"
+                  min="1"
+                  value={minPhotos}
+                  onChange={(e) => setMinPhotos(e.target.value)}
+                  data-testid="input-min-photos"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="excluded-keywords">Excluded Keywords</Label>
+              <Input
+                id="excluded-keywords"
+                placeholder="gold tone, goudkleurig, bijoux fantaisie"
+                value={excludedKeywords}
+                onChange={(e) => setExcludedKeywords(e.target.value)}
+                data-testid="input-excluded-keywords"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="required-keywords">Required Keywords (any)</Label>
+              <Input
+                id="required-keywords"
+                placeholder="zilver, silver, argent, 925"
+                value={requiredKeywords}
+                onChange={(e) => setRequiredKeywords(e.target.value)}
+                data-testid="input-required-keywords"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="excluded-brands">Excluded Brands</Label>
+                <Input
+                  id="excluded-brands"
+                  value={excludedBrands}
+                  onChange={(e) => setExcludedBrands(e.target.value)}
+                  data-testid="input-excluded-brands"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="excluded-sellers">Excluded Sellers</Label>
+                <Input
+                  id="excluded-sellers"
+                  value={excludedSellers}
+                  onChange={(e) => setExcludedSellers(e.target.value)}
+                  data-testid="input-excluded-sellers"
+                />
+              </div>
+            </div>
           </div>
 
           <DialogFooter>
@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Coins, Pause } from "lucide-react";
+import type { AiSpend, AiUsageSummary } from "@shared/schema";
+
+interface AiUsageCardProps {
+  usage: AiUsageSummary;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 1 ? 3 : 2)}`;
+}
+
+function SpendRow({ label, spend, limit }: { label: string; spend: AiSpend; limit: number | null }) {
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-mono">
+          {formatUsd(spend.costUsd)}{limit !== null && <span className="text-muted-foreground"> / {formatUsd(limit)}</span>}
+        </span>
+      </div>
+      {limit !== null && (
+        <Progress value={Math.min((spend.costUsd / limit) * 100, 100)} className="h-1.5 mt-1" />
+      )}
+      <p className="text-xs text-muted-foreground mt-1">
+        {spend.calls} calls · {spend.tokens.toLocaleString()} tokens
+      </p>
+    </div>
+  );
+}
+
+export default function AiUsageCard({ usage }: AiUsageCardProps) {
+  const topSearches = usage.perSearch.slice(0, 3);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Coins className="w-4 h-4 text-muted-foreground" />
+            <h3 className="font-semibold text-base">AI Spend</h3>
+          </div>
+          {usage.budget.exceeded && (
+            <Badge variant="outline" className="gap-1.5 bg-destructive/10 text-destructive border-destructive/20" data-testid="badge-budget-paused">
+              <Pause className="w-3 h-3" />
+              Paused
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <SpendRow label="Today" spend={usage.today} limit={usage.budget.dailyLimitUsd} />
+          <SpendRow label="This month" spend={usage.month} limit={usage.budget.monthlyLimitUsd} />
+        </div>
+
+        {usage.budget.exceeded && usage.budget.pausedUntil && (
+          <p className="text-xs text-destructive" data-testid="text-budget-paused">
+            Budget reached — automated scanning resumes {new Date(usage.budget.pausedUntil).toLocaleString()}
+          </p>
+        )}
+
+        {topSearches.length > 0 && (
+          <div className="pt-2 border-t space-y-2">
+            <p className="text-xs text-muted-foreground">Last 30 days by search</p>
+            {topSearches.map((search) => (
+              <div key={search.searchQueryId ?? "manual"} className="flex justify-between text-sm gap-2">
+                <span className="truncate">{search.searchLabel ?? "Manual scans"}</span>
+                <span className="font-mono whitespace-nowrap">
+                  {formatUsd(search.costUsd)}
+                  <span className="text-muted-foreground">
+                    {search.costPerFinding !== null ? ` · ${formatUsd(search.costPerFinding)}/find` : " · no finds"}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { Badge } from "@/components/ui/badge";
+import { Sparkles, Eye, MessageCircle, ShoppingBag, XCircle, BadgeEuro } from "lucide-react";
+import type { FindingStatus } from "@shared/schema";
+
+export const findingStatusConfig: Record<FindingStatus, { label: string; icon: typeof Sparkles; className: string }> = {
+  new: {
+    label: "New",
+    icon: Sparkles,
+    className: "bg-primary/10 text-primary border-primary/20"
+  },
+  watching: {
+    label: "Watching",
+    icon: Eye,
+    className: "bg-chart-2/10 text-chart-2 border-chart-2/20"
+  },
+  contacted: {
+    label: "Contacted",
+    icon: MessageCircle,
+    className: "bg-chart-3/10 text-chart-3 border-chart-3/20"
+  },
+  bought: {
+    label: "Bought",
+    icon: ShoppingBag,
+    className: "bg-chart-4/10 text-chart-4 border-chart-4/20"
+  },
+  passed: {
+    label: "Passed",
+    icon: XCircle,
+    className: "bg-muted text-muted-foreground border-border"
+  },
+  sold: {
+    label: "Sold",
+    icon: BadgeEuro,
+    className: "bg-chart-5/10 text-chart-5 border-chart-5/20"
+  }
+};
+
+interface FindingStatusBadgeProps {
+  status: string;
+}
+
+export default function FindingStatusBadge({ status }: FindingStatusBadgeProps) {
+  const { label, icon: Icon, className } = findingStatusConfig[status as FindingStatus] ?? findingStatusConfig.new;
+
+  return (
+    <Badge variant="outline" className={`gap-1.5 ${className}`} data-testid="badge-finding-status">
+      <Icon className="w-3 h-3" />
+      {label}
+    </Badge>
+  );
+}
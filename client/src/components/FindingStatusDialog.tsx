@@ -0,0 +1,140 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import FindingStatusBadge, { findingStatusConfig } from "./FindingStatusBadge";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { findingStatusEnum, type Finding, type FindingStatusHistory } from "@shared/schema";
+import { timeAgo } from "@/utils/timeAgo";
+
+interface FindingStatusDialogProps {
+  finding: Finding | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: { status: string; changedBy: string; note: string }) => void;
+  isPending?: boolean;
+}
+
+export default function FindingStatusDialog({ finding, onOpenChange, onSubmit, isPending }: FindingStatusDialogProps) {
+  const [status, setStatus] = useState(finding?.status ?? "new");
+  const [changedBy, setChangedBy] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    setStatus(finding?.status ?? "new");
+    setNote("");
+  }, [finding?.id, finding?.status]);
+
+  const { data: history = [] } = useQuery<FindingStatusHistory[]>({
+    queryKey: [`/api/findings/${finding?.id}/history`],
+    enabled: Boolean(finding),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ status, changedBy, note });
+  };
+
+  return (
+    <Dialog open={Boolean(finding)} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Update Status</DialogTitle>
+            <DialogDescription className="line-clamp-1">
+              {finding?.listingTitle}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="finding-status">Status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger id="finding-status" data-testid="select-finding-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {findingStatusEnum.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {findingStatusConfig[option].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="changed-by">Your Name</Label>
+                <Input
+                  id="changed-by"
+                  placeholder="Optional"
+                  value={changedBy}
+                  onChange={(e) => setChangedBy(e.target.value)}
+                  data-testid="input-changed-by"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="status-note">Note</Label>
+              <Textarea
+                id="status-note"
+                placeholder="e.g. Offered €15, waiting for reply"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                data-testid="input-status-note"
+              />
+            </div>
+
+            {history.length > 0 && (
+              <div className="pt-2 border-t space-y-2">
+                <p className="text-xs text-muted-foreground">History</p>
+                {history.map((entry) => (
+                  <div key={entry.id} className="text-sm space-y-0.5" data-testid={`row-status-history-${entry.id}`}>
+                    <div className="flex items-center gap-2">
+                      <FindingStatusBadge status={entry.toStatus} />
+                      <span className="text-xs text-muted-foreground">
+                        {timeAgo(entry.changedAt)}{entry.changedBy ? ` by ${entry.changedBy}` : ""}
+                      </span>
+                    </div>
+                    {entry.note && <p className="text-muted-foreground">{entry.note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onOpenChange(false)}
+              data-testid="button-cancel-status"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || (status === finding?.status && !note)} data-testid="button-save-status">
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import { Eye, Heart, Star, User } from "lucide-react";
+import { timeAgo } from "@/utils/timeAgo";
+import type { ListingDetails } from "@shared/schema";
+
+interface ListingDetailsSummaryProps {
+  details: ListingDetails | null | undefined;
+  className?: string;
+}
+
+// Brand/condition/size line plus seller and listing stats; renders nothing without details
+export default function ListingDetailsSummary({ details, className = "" }: ListingDetailsSummaryProps) {
+  if (!details) return null;
+
+  const attributes = [details.brand, details.condition, details.size, details.category].filter(Boolean);
+  const hasStats = details.sellerName || details.uploadedAt || details.favouriteCount !== undefined || details.viewCount !== undefined;
+  if (attributes.length === 0 && !hasStats) return null;
+
+  return (
+    <div className={`space-y-1 text-xs ${className}`} data-testid="listing-details">
+      {attributes.length > 0 && <p>{attributes.join(" · ")}</p>}
+      {hasStats && (
+        <p className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          {details.sellerName && (
+            <span className="inline-flex items-center gap-1">
+              <User className="w-3 h-3" />
+              {details.sellerName}
+              {details.sellerRating !== undefined && (
+                <span className="inline-flex items-center gap-0.5">
+                  <Star className="w-3 h-3" />
+                  {details.sellerRating.toFixed(1)}
+                </span>
+              )}
+            </span>
+          )}
+          {details.uploadedAt && <span>Listed {timeAgo(details.uploadedAt)}</span>}
+          {details.favouriteCount !== undefined && (
+            <span className="inline-flex items-center gap-1">
+              <Heart className="w-3 h-3" />
+              {details.favouriteCount}
+            </span>
+          )}
+          {details.viewCount !== undefined && (
+            <span className="inline-flex items-center gap-1">
+              <Eye className="w-3 h-3" />
+              {details.viewCount}
+            </span>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
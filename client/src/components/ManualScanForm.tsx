@@ -25,17 +25,17 @@ export default function ManualScanForm({ onScan, isScanning = false }: ManualSca
       <CardHeader>
         <CardTitle className="text-lg">Manual Listing Analysis</CardTitle>
         <p className="text-sm text-muted-foreground">
-          Paste any Vinted listing URL for instant AI analysis
+          Paste any Vinted or Marktplaats listing URL for instant AI analysis
         </p>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="listing-url">Vinted Listing URL</Label>
+            <Label htmlFor="listing-url">Listing URL</Label>
             <Input
               id="listing-url"
               type="url"
-              placeholder="https://www.vinted.com/items/..."
+              placeholder="https://www.vinted.nl/items/..."
               value={url}
               onChange={(e) => setUrl(e.target.value)}
               disabled={isScanning}
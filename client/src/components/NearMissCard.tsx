@@ -0,0 +1,86 @@
+import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import ConfidenceScore from "./ConfidenceScore";
+import MaterialBadge from "./MaterialBadge";
+import ListingDetailsSummary from "./ListingDetailsSummary";
+import { timeAgo } from "@/utils/timeAgo";
+import { ArrowUpCircle, BellRing, ExternalLink, X } from "lucide-react";
+import type { AnalyzedListing } from "@shared/schema";
+
+interface NearMissCardProps {
+  listing: AnalyzedListing;
+  searchLabel?: string;
+  isPending?: boolean;
+  onPromote?: (sendAlert: boolean) => void;
+  onDismiss?: () => void;
+}
+
+export default function NearMissCard({ listing, searchLabel, isPending, onPromote, onDismiss }: NearMissCardProps) {
+  const images = (listing.imageUrls ?? []).slice(0, 3);
+
+  return (
+    <Card data-testid={`card-near-miss-${listing.id}`}>
+      <CardHeader className="pb-3 space-y-1">
+        <h3 className="font-semibold text-base line-clamp-2">{listing.listingTitle ?? listing.listingId}</h3>
+        <p className="text-xs text-muted-foreground">
+          {searchLabel ? `${searchLabel} · ` : ""}Analyzed {timeAgo(listing.analyzedAt)}
+          {listing.price ? ` · ${listing.price}` : ""}
+          {listing.enrichment && listing.enrichment !== "enriched" ? " · search result data only" : ""}
+        </p>
+        <ListingDetailsSummary details={listing.details} className="text-muted-foreground" />
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {images.length > 0 && (
+          <div className="grid grid-cols-3 gap-2">
+            {images.map((url) => (
+              <img
+                key={url}
+                src={url}
+                alt=""
+                loading="lazy"
+                className="aspect-square w-full rounded-md object-cover bg-muted"
+              />
+            ))}
+          </div>
+        )}
+
+        <ConfidenceScore score={listing.confidenceScore} size="sm" />
+
+        {listing.mainMaterialGuess && (
+          <MaterialBadge material={listing.mainMaterialGuess} />
+        )}
+
+        {listing.reasons && listing.reasons.length > 0 && (
+          <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+            {listing.reasons.map((reason, i) => (
+              <li key={i}>{reason}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => onPromote?.(false)} disabled={isPending} data-testid="button-promote">
+          <ArrowUpCircle className="w-4 h-4 mr-1.5" />
+          Promote
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onPromote?.(true)} disabled={isPending} data-testid="button-promote-alert">
+          <BellRing className="w-4 h-4 mr-1.5" />
+          Promote & Alert
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onDismiss} disabled={isPending} data-testid="button-dismiss">
+          <X className="w-4 h-4 mr-1.5" />
+          Dismiss
+        </Button>
+        {listing.listingUrl && (
+          <Button asChild size="icon" variant="ghost" className="ml-auto" data-testid="button-view-listing">
+            <a href={listing.listingUrl} target="_blank" rel="noreferrer">
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
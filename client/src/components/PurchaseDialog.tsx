@@ -0,0 +1,295 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useEffect, useState } from "react";
+import { mainMaterialEnum, type Finding, type Purchase } from "@shared/schema";
+
+// Must match the server's BASE_CURRENCY
+const BASE_CURRENCY = import.meta.env.VITE_BASE_CURRENCY || "EUR";
+
+export interface PurchaseFormData {
+  findingId: string | null;
+  listingTitle?: string;
+  purchasePrice: string;
+  shippingCost: string;
+  buyerProtectionFee: string;
+  testedMaterial: string | null;
+  weightGrams: string | null;
+  purchasedAt: string;
+  resaleChannel: string | null;
+  resalePrice: string | null;
+  resaleFees: string;
+  soldAt: string | null;
+  notes: string | null;
+}
+
+interface PurchaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: PurchaseFormData) => void;
+  findings?: Finding[];
+  editData?: Purchase | null;
+  isPending?: boolean;
+}
+
+function toDateInput(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toISOString().slice(0, 10) : "";
+}
+
+export default function PurchaseDialog({ open, onOpenChange, onSubmit, findings = [], editData, isPending }: PurchaseDialogProps) {
+  const [findingId, setFindingId] = useState("none");
+  const [listingTitle, setListingTitle] = useState("");
+  const [purchasePrice, setPurchasePrice] = useState("");
+  const [shippingCost, setShippingCost] = useState("0");
+  const [buyerProtectionFee, setBuyerProtectionFee] = useState("0");
+  const [testedMaterial, setTestedMaterial] = useState("untested");
+  const [weightGrams, setWeightGrams] = useState("");
+  const [purchasedAt, setPurchasedAt] = useState(toDateInput(new Date()));
+  const [resaleChannel, setResaleChannel] = useState("");
+  const [resalePrice, setResalePrice] = useState("");
+  const [resaleFees, setResaleFees] = useState("0");
+  const [soldAt, setSoldAt] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setFindingId(editData?.findingId ?? "none");
+    setListingTitle(editData?.listingTitle ?? "");
+    setPurchasePrice(editData?.purchasePrice ?? "");
+    setShippingCost(editData?.shippingCost ?? "0");
+    setBuyerProtectionFee(editData?.buyerProtectionFee ?? "0");
+    setTestedMaterial(editData?.testedMaterial ?? "untested");
+    setWeightGrams(editData?.weightGrams ?? "");
+    setPurchasedAt(toDateInput(editData?.purchasedAt ?? new Date()));
+    setResaleChannel(editData?.resaleChannel ?? "");
+    setResalePrice(editData?.resalePrice ?? "");
+    setResaleFees(editData?.resaleFees ?? "0");
+    setSoldAt(toDateInput(editData?.soldAt));
+    setNotes(editData?.notes ?? "");
+  }, [open, editData]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      findingId: findingId === "none" ? null : findingId,
+      listingTitle: listingTitle || undefined,
+      purchasePrice,
+      shippingCost: shippingCost || "0",
+      buyerProtectionFee: buyerProtectionFee || "0",
+      testedMaterial: testedMaterial === "untested" ? null : testedMaterial,
+      weightGrams: weightGrams || null,
+      purchasedAt,
+      resaleChannel: resaleChannel || null,
+      resalePrice: resalePrice || null,
+      resaleFees: resaleFees || "0",
+      soldAt: soldAt || null,
+      notes: notes || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{editData ? 'Edit' : 'Record'} Purchase</DialogTitle>
+            <DialogDescription>
+              Track what you paid and, once resold, what it brought in
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {!editData && (
+              <div className="space-y-2">
+                <Label htmlFor="purchase-finding">Finding</Label>
+                <Select value={findingId} onValueChange={setFindingId}>
+                  <SelectTrigger id="purchase-finding" data-testid="select-purchase-finding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not linked to a finding</SelectItem>
+                    {findings.map((finding) => (
+                      <SelectItem key={finding.id} value={finding.id}>
+                        {finding.listingTitle} ({finding.price})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(editData || findingId === "none") && (
+              <div className="space-y-2">
+                <Label htmlFor="purchase-title">Item</Label>
+                <Input
+                  id="purchase-title"
+                  value={listingTitle}
+                  onChange={(e) => setListingTitle(e.target.value)}
+                  required={!editData}
+                  data-testid="input-purchase-title"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="purchase-price">Price ({BASE_CURRENCY})</Label>
+                <Input
+                  id="purchase-price"
+                  inputMode="decimal"
+                  value={purchasePrice}
+                  onChange={(e) => setPurchasePrice(e.target.value)}
+                  required
+                  data-testid="input-purchase-price"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shipping-cost">Shipping ({BASE_CURRENCY})</Label>
+                <Input
+                  id="shipping-cost"
+                  inputMode="decimal"
+                  value={shippingCost}
+                  onChange={(e) => setShippingCost(e.target.value)}
+                  data-testid="input-shipping-cost"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="protection-fee">Protection Fee ({BASE_CURRENCY})</Label>
+                <Input
+                  id="protection-fee"
+                  inputMode="decimal"
+                  value={buyerProtectionFee}
+                  onChange={(e) => setBuyerProtectionFee(e.target.value)}
+                  data-testid="input-protection-fee"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tested-material">Tested Material</Label>
+                <Select value={testedMaterial} onValueChange={setTestedMaterial}>
+                  <SelectTrigger id="tested-material" data-testid="select-tested-material">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="untested">Not tested</SelectItem>
+                    {mainMaterialEnum.options.filter((m) => m !== "unknown").map((material) => (
+                      <SelectItem key={material} value={material}>
+                        {material.replace(/_/g, " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="weight-grams">Weight (g)</Label>
+                <Input
+                  id="weight-grams"
+                  inputMode="decimal"
+                  value={weightGrams}
+                  onChange={(e) => setWeightGrams(e.target.value)}
+                  data-testid="input-weight-grams"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchased-at">Bought On</Label>
+                <Input
+                  id="purchased-at"
+                  type="date"
+                  value={purchasedAt}
+                  onChange={(e) => setPurchasedAt(e.target.value)}
+                  required
+                  data-testid="input-purchased-at"
+                />
+              </div>
+            </div>
+
+            <div className="pt-2 border-t grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="resale-channel">Resale Channel</Label>
+                <Input
+                  id="resale-channel"
+                  placeholder="e.g. Catawiki, Etsy, gold buyer"
+                  value={resaleChannel}
+                  onChange={(e) => setResaleChannel(e.target.value)}
+                  data-testid="input-resale-channel"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sold-at">Sold On</Label>
+                <Input
+                  id="sold-at"
+                  type="date"
+                  value={soldAt}
+                  onChange={(e) => setSoldAt(e.target.value)}
+                  data-testid="input-sold-at"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resale-price">Resale Price ({BASE_CURRENCY})</Label>
+                <Input
+                  id="resale-price"
+                  inputMode="decimal"
+                  value={resalePrice}
+                  onChange={(e) => setResalePrice(e.target.value)}
+                  data-testid="input-resale-price"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resale-fees">Resale Fees ({BASE_CURRENCY})</Label>
+                <Input
+                  id="resale-fees"
+                  inputMode="decimal"
+                  value={resaleFees}
+                  onChange={(e) => setResaleFees(e.target.value)}
+                  data-testid="input-resale-fees"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="purchase-notes">Notes</Label>
+              <Textarea
+                id="purchase-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-purchase-notes"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onOpenChange(false)}
+              data-testid="button-cancel-purchase"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending} data-testid="button-save-purchase">
+              {editData ? 'Update' : 'Record'} Purchase
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,51 @@
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { hallmarkToPurity } from "@/utils/hallmarkToPurity";
 import { timeAgo } from "@/utils/timeAgo";
+import { formatPrice, parsePrice } from "@shared/price";
+import { describeHallmark, tagListingText } from "@shared/hallmark-lexicon";
 import { Button } from "./ui/button";
-import { Trash2 } from "lucide-react";
+import FindingStatusBadge from "./FindingStatusBadge";
+import ListingDetailsSummary from "./ListingDetailsSummary";
+import { ListChecks, Trash2 } from "lucide-react";
 import type { Finding, ManualScan } from "@shared/schema";
 
+// Typical Vinted shipping cost, in the listing's currency
+const SHIPPING_COST = 4;
+// Must match the server's BASE_CURRENCY
+const BASE_CURRENCY = import.meta.env.VITE_BASE_CURRENCY || "EUR";
+
 type ScanResultCardProps = {
   finding: Finding | ManualScan;
   onDelete: () => void;
+  onManageStatus?: () => void;
 };
 
-export function ScanResultCard({ finding, onDelete }: ScanResultCardProps) {
-  const hallmarkInfo = hallmarkToPurity(finding.aiReasoning);
-  const totalCost = parseFloat(finding.price?.replace(/[€,\s]/g, '') || '0') + 4;
+export function ScanResultCard({ finding, onDelete, onManageStatus }: ScanResultCardProps) {
+  // Marks named in the listing text (tagged at scan time) plus the ones the model saw in the photos,
+  // read from its reasoning; manual scans and older findings only have the reasoning
+  const textHallmarks = "tags" in finding && finding.tags ? finding.tags.hallmarks : [];
+  const hallmarks = [...textHallmarks, ...tagListingText(finding.aiReasoning).hallmarks].filter(
+    (hallmark, i, all) => all.findIndex(other => other.metal === hallmark.metal && other.fineness === hallmark.fineness) === i
+  );
+  const stamps = "detectedHallmarks" in finding ? finding.detectedHallmarks ?? [] : [];
+  const parsedPrice = finding.priceAmount !== null
+    ? { amount: parseFloat(finding.priceAmount), currency: finding.priceCurrency ?? "EUR" }
+    : parsePrice(finding.price);
+  const currency = parsedPrice?.currency ?? "EUR";
+  const totalCost = (parsedPrice?.amount ?? 0) + SHIPPING_COST;
+  // Compare across countries in the base currency, at the rate the server converted the price with;
+  // null when the listing's currency has no known rate
+  const baseRate = currency === BASE_CURRENCY
+    ? 1
+    : finding.priceBase !== null && parsedPrice?.amount
+    ? parseFloat(finding.priceBase) / parsedPrice.amount
+    : null;
+  const comparableCost = baseRate !== null ? totalCost * baseRate : null;
+  // Melt estimates are in the base currency; the metal alone paying for the item makes it a buy
+  const melt = "meltEstimate" in finding ? finding.meltEstimate : null;
+  const meltCoversCost = !!melt && comparableCost !== null && melt.value >= comparableCost;
   const advice =
-    finding.confidenceScore >= 80 && totalCost <= 20
+    meltCoversCost || (finding.confidenceScore >= 80 && comparableCost !== null && comparableCost <= 20)
       ? "BUY"
       : finding.confidenceScore >= 60
       ? "MAYBE"
@@ -48,7 +78,12 @@ export function ScanResultCard({ finding, onDelete }: ScanResultCardProps) {
         </div>
       </div>
 
-      <p className="text-sm mt-1 opacity-80">{timeText}</p>
+      <div className="flex items-center justify-between gap-2 mt-1">
+        <p className="text-sm opacity-80">{timeText}</p>
+        {"status" in finding && <FindingStatusBadge status={finding.status} />}
+      </div>
+
+      <ListingDetailsSummary details={finding.details} className="mt-2 text-neutral-300" />
 
       <div className="mt-3">
         <div className="flex justify-between text-sm">
@@ -68,11 +103,17 @@ export function ScanResultCard({ finding, onDelete }: ScanResultCardProps) {
         </div>
       </div>
 
-      {hallmarkInfo && (
-        <div className="mt-2 text-sm text-gray-300">
-          Hallmark {hallmarkInfo.karat} → {hallmarkInfo.percentage}% {hallmarkInfo.metal}
+      {hallmarks.map(hallmark => (
+        <div key={`${hallmark.metal}-${hallmark.fineness}`} className="mt-2 text-sm text-gray-300" data-testid="text-hallmark">
+          Hallmark {describeHallmark(hallmark)}
         </div>
-      )}
+      ))}
+      {stamps.map(stamp => (
+        <div key={`${stamp.metal}-${stamp.fineness}`} className="mt-2 text-sm text-gray-300" data-testid="text-ocr-hallmark">
+          Stamp in photo {stamp.photo}: {describeHallmark(stamp)}
+          <span className="text-neutral-500"> · OCR {stamp.confidence}%</span>
+        </div>
+      ))}
 
       {/* Display detected materials as badges */}
       <div className="mt-3">
@@ -101,11 +142,24 @@ export function ScanResultCard({ finding, onDelete }: ScanResultCardProps) {
           <span className="opacity-70">Item price:</span> {finding.price || "N/A"}
         </p>
         <p>
-          <span className="opacity-70">Shipping:</span> €4.00
+          <span className="opacity-70">Shipping:</span> {formatPrice(SHIPPING_COST, currency)}
         </p>
         <p className="font-semibold">
-          Total: €{totalCost.toFixed(2)}
+          Total: {formatPrice(totalCost, currency)}
         </p>
+        {finding.priceBase !== null && currency !== BASE_CURRENCY && (
+          <p className="opacity-70" data-testid="text-price-base">
+            ≈ {formatPrice(parseFloat(finding.priceBase), BASE_CURRENCY)} item price
+          </p>
+        )}
+        {melt && (
+          <p className={meltCoversCost ? "text-green-500" : ""} data-testid="text-melt-value">
+            Melt value: ≈ {formatPrice(melt.value, BASE_CURRENCY)}
+            <span className="opacity-70">
+              {" "}({melt.weightGrams} g × {melt.fineness / 10}% {melt.metal} at {formatPrice(melt.pricePerGram, BASE_CURRENCY)}/g)
+            </span>
+          </p>
+        )}
       </div>
 
       <div className="mt-4 flex gap-2">
@@ -116,6 +170,16 @@ export function ScanResultCard({ finding, onDelete }: ScanResultCardProps) {
         >
           View Listing
         </a>
+        {onManageStatus && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onManageStatus}
+            data-testid="button-manage-status"
+          >
+            <ListChecks className="w-4 h-4" />
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="icon"
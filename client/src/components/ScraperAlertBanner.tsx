@@ -0,0 +1,62 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Download, X } from "lucide-react";
+import { apiUrl } from "@/lib/queryClient";
+import type { ScraperAlertSummary } from "@shared/schema";
+
+interface ScraperAlertBannerProps {
+  alerts: ScraperAlertSummary[];
+  onDismiss?: (id: string) => void;
+}
+
+function describeAlert(alert: ScraperAlertSummary): string {
+  const expected = alert.baselineListings !== null ? ` (usually ~${alert.baselineListings})` : "";
+  return alert.kind === "zero_results"
+    ? `No listings could be extracted${expected}.`
+    : `Only the DOM fallback parser matched: ${alert.listingsFound} listings${expected}.`;
+}
+
+export default function ScraperAlertBanner({ alerts, onDismiss }: ScraperAlertBannerProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" data-testid="banner-scraper-alerts">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Scraper may be broken</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">The marketplace page structure may have changed. Scans of these searches can miss listings.</p>
+        <ul className="space-y-2">
+          {alerts.map((alert) => (
+            <li key={alert.id} className="flex flex-wrap items-center justify-between gap-2" data-testid={`scraper-alert-${alert.id}`}>
+              <span className="text-sm">
+                <span className="font-medium">{alert.searchLabel}</span>: {describeAlert(alert)}{" "}
+                <span className="text-xs opacity-80">{new Date(alert.createdAt).toLocaleString()}</span>
+              </span>
+              <div className="flex gap-2">
+                {alert.hasRawPage && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={apiUrl(`/api/scraper-alerts/${alert.id}/page`)} data-testid={`button-download-page-${alert.id}`}>
+                      <Download className="w-3 h-3 mr-1" />
+                      Page
+                    </a>
+                  </Button>
+                )}
+                {onDismiss && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDismiss(alert.id)}
+                    data-testid={`button-dismiss-alert-${alert.id}`}
+                  >
+                    <X className="w-3 h-3 mr-1" />
+                    Dismiss
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
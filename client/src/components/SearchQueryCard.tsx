@@ -1,36 +1,45 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
-import { Edit2, Trash2, Play } from "lucide-react";
+import { Edit2, Trash2, Play, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import StatusBadge from "./StatusBadge";
 import { formatDistanceToNow } from "date-fns";
 
 interface SearchQueryCardProps {
   searchLabel: string;
   vintedUrl: string;
+  site?: string | null; // Vinted domain or marketplace the search runs on
   scanFrequency: number;
   confidenceThreshold: number;
+  scanJitterMinutes?: number;
   isActive: boolean;
   lastScannedAt: Date | null;
+  nextScanAt?: Date | string | null;
   status: "active" | "paused" | "scanning";
   onToggle: () => void;
   onEdit: () => void;
   onDelete: () => void;
   onTrigger: () => void;
+  onViewRuns?: () => void;
 }
 
 export default function SearchQueryCard({
   searchLabel,
   vintedUrl,
+  site,
   scanFrequency,
   confidenceThreshold,
+  scanJitterMinutes = 0,
   isActive,
   lastScannedAt,
+  nextScanAt,
   status,
   onToggle,
   onEdit,
   onDelete,
-  onTrigger
+  onTrigger,
+  onViewRuns
 }: SearchQueryCardProps) {
   return (
     <Card className="hover-elevate">
@@ -44,14 +53,23 @@ export default function SearchQueryCard({
               {vintedUrl}
             </p>
           </div>
-          <StatusBadge status={status} />
+          <div className="flex items-center gap-2 shrink-0">
+            {site && (
+              <Badge variant="outline" className="font-mono" data-testid="badge-site">
+                {site}
+              </Badge>
+            )}
+            <StatusBadge status={status} />
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="grid grid-cols-2 gap-3 text-sm">
           <div>
             <p className="text-muted-foreground text-xs">Scan Frequency</p>
-            <p className="font-medium" data-testid="text-frequency">{scanFrequency}h</p>
+            <p className="font-medium" data-testid="text-frequency">
+              {scanFrequency}h{scanJitterMinutes > 0 && <span className="text-muted-foreground font-normal"> ±{scanJitterMinutes}m</span>}
+            </p>
           </div>
           <div>
             <p className="text-muted-foreground text-xs">Confidence Min</p>
@@ -65,6 +83,14 @@ export default function SearchQueryCard({
           </p>
         )}
 
+        {isActive && nextScanAt && (
+          <p className="text-xs text-muted-foreground" data-testid="text-next-scan">
+            {new Date(nextScanAt).getTime() <= Date.now()
+              ? "Next scan due now"
+              : `Next scan ${formatDistanceToNow(new Date(nextScanAt), { addSuffix: true })}`}
+          </p>
+        )}
+
         <div className="flex items-center justify-between pt-2 border-t gap-2">
           <div className="flex items-center gap-2">
             <Switch 
@@ -84,6 +110,16 @@ export default function SearchQueryCard({
             >
               <Play className="w-4 h-4" />
             </Button>
+            {onViewRuns && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={onViewRuns}
+                data-testid="button-view-runs"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+            )}
             <Button
               size="icon"
               variant="ghost"
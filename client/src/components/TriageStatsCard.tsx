@@ -0,0 +1,49 @@
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Filter } from "lucide-react";
+import type { TriageBucket, TriageStats } from "@shared/schema";
+
+interface TriageStatsCardProps {
+  stats: TriageStats;
+}
+
+function BucketRow({ label, bucket, showFinds = true }: { label: string; bucket: TriageBucket; showFinds?: boolean }) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">
+        {bucket.listings}
+        {showFinds && <span className="text-muted-foreground"> · {bucket.finds} finds</span>}
+      </span>
+    </div>
+  );
+}
+
+// Triage funnel of the last 30 days; the shadow sample estimates the finds that dropping misses
+export default function TriageStatsCard({ stats }: TriageStatsCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Filter className="w-4 h-4 text-muted-foreground" />
+            <h3 className="font-semibold text-base">Triage</h3>
+          </div>
+          <Badge variant="outline" className="capitalize">
+            {stats.mode} · min {stats.minScore}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <BucketRow label="Escalated to photo analysis" bucket={stats.escalated} />
+        <BucketRow label="Dropped" bucket={stats.dropped} showFinds={false} />
+        <BucketRow label={`Shadow sample (${Math.round(stats.shadowRate * 100)}% of drops)`} bucket={stats.shadow} />
+        <p className="text-xs text-muted-foreground pt-2 border-t" data-testid="text-triage-missed">
+          {stats.missRate !== null
+            ? `Estimated finds lost to triage: ~${stats.estimatedMissedFinds} (${(stats.missRate * 100).toFixed(1)}% of the shadow sample were finds)`
+            : "No shadow samples yet to estimate missed finds"}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
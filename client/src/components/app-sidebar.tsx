@@ -11,7 +11,7 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Link, useLocation } from "wouter";
-import { Home, Search, History, Gem } from "lucide-react";
+import { Home, Search, History, Gem, Inbox, ShoppingBag, Settings } from "lucide-react";
 
 const menuItems = [
   {
@@ -29,11 +29,26 @@ const menuItems = [
     url: "/findings",
     icon: Gem,
   },
+  {
+    title: "Review Queue",
+    url: "/review",
+    icon: Inbox,
+  },
+  {
+    title: "Purchases",
+    url: "/purchases",
+    icon: ShoppingBag,
+  },
   {
     title: "Manual Scan",
     url: "/manual-scan",
     icon: History,
   },
+  {
+    title: "Settings",
+    url: "/settings",
+    icon: Settings,
+  },
 ];
 
 export function AppSidebar() {
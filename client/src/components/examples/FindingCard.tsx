@@ -4,10 +4,32 @@ import type { Finding } from '@shared/schema';
 export default function FindingCardExample() {
   const mockFinding: Finding = {
     id: '1',
+    source: 'vinted',
     listingId: '12345',
     listingUrl: 'https://www.vinted.com/items/12345',
     listingTitle: 'Vintage Art Deco Gold Ring with Diamonds',
     price: '€25.00',
+    priceAmount: '25.00',
+    priceCurrency: 'EUR',
+    priceBase: '25.00',
+    details: {
+      brand: 'No brand',
+      condition: 'Very good',
+      size: '17 mm',
+      sellerName: 'estate_finds',
+      sellerRating: 4.9,
+      uploadedAt: new Date(Date.now() - 26 * 60 * 60 * 1000).toISOString(),
+      favouriteCount: 3,
+      viewCount: 48,
+    },
+    tags: {
+      hallmarks: [{ mark: '585', metal: 'gold', fineness: 585, label: '14K gold' }],
+      metals: ['gold'],
+      plated: [],
+      negated: [],
+    },
+    detectedHallmarks: [{ mark: '585', metal: 'gold', fineness: 585, label: '14K gold', photo: 2, confidence: 91 }],
+    meltEstimate: { weightGrams: 2.8, metal: 'gold', fineness: 585, mark: '585', pricePerGram: 118.4, value: 193.94 },
     confidenceScore: 87,
     aiReasoning: 'Clear 585 hallmark on inner band. Art Deco geometric setting with old mine cut diamonds. Vintage prong construction and patina consistent with 1920s-1930s era.',
     detectedMaterials: ["gold", "diamonds"],
@@ -19,7 +41,9 @@ export default function FindingCardExample() {
     telegramSent: false,
     expiresAt: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000),
     lastScannedAt: null,
-    scanIntervalMinutes: 90
+    scanIntervalMinutes: 90,
+    status: 'new',
+    statusChangedAt: null
   };
 
   return (
@@ -10,15 +10,17 @@ async function throwIfResNotOk(res: Response) {
 // ✅ Gebruik de environment variable als basis voor alle API-calls
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:5000";
 
+// Volledige URL voor een API-pad, ook voor gewone links (bijv. downloads)
+export function apiUrl(url: string): string {
+  return url.startsWith("http") ? url : `${API_BASE_URL}${url}`;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown
 ): Promise<Response> {
-  // Voeg base URL toe als het geen volledig pad is
-  const fullUrl = url.startsWith("http") ? url : `${API_BASE_URL}${url}`;
-
-  const res = await fetch(fullUrl, {
+  const res = await fetch(apiUrl(url), {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
@@ -2,23 +2,50 @@ import { Button } from "@/components/ui/button";
 import SearchQueryCard from "@/components/SearchQueryCard";
 import { ScanResultCard } from "@/components/ScanResultCard";
 import AddSearchDialog from "@/components/AddSearchDialog";
+import AiUsageCard from "@/components/AiUsageCard";
+import TriageStatsCard from "@/components/TriageStatsCard";
+import ScraperAlertBanner from "@/components/ScraperAlertBanner";
 import { Plus } from "lucide-react";
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { SearchQuery, Finding } from "@shared/schema";
+import type { SearchQuery, SearchQueryWithSchedule, AiUsageSummary, ScraperAlertSummary, FilterRules, TriageStats } from "@shared/schema";
+import { fetchFindings } from "@/utils/findingsQuery";
 import { useToast } from "@/hooks/use-toast";
 
 export default function Dashboard() {
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const { toast } = useToast();
+  const [, navigate] = useLocation();
 
-  const { data: searches = [] } = useQuery<SearchQuery[]>({
+  const { data: searches = [] } = useQuery<SearchQueryWithSchedule[]>({
     queryKey: ["/api/searches"],
   });
 
-  const { data: findings = [] } = useQuery<Finding[]>({
-    queryKey: ["/api/findings"],
+  const { data: recentFindings } = useQuery({
+    queryKey: ["/api/findings", { limit: 2 }],
+    queryFn: () => fetchFindings({ limit: 2 }),
+  });
+  const findings = recentFindings?.items ?? [];
+
+  const { data: usage } = useQuery<AiUsageSummary>({
+    queryKey: ["/api/usage"],
+  });
+
+  const { data: triageStats } = useQuery<TriageStats>({
+    queryKey: ["/api/triage/stats"],
+  });
+
+  const { data: scraperAlerts = [] } = useQuery<ScraperAlertSummary[]>({
+    queryKey: ["/api/scraper-alerts"],
+  });
+
+  const dismissAlertMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/scraper-alerts/${id}/resolve`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scraper-alerts"] });
+    },
   });
 
   const deleteMutation = useMutation({
@@ -40,7 +67,7 @@ export default function Dashboard() {
   const triggerMutation = useMutation({
     mutationFn: (id: string) => apiRequest("POST", `/api/searches/${id}/trigger`),
     onSuccess: () => {
-      toast({ title: "Scan started", description: "Check findings in a few moments" });
+      toast({ title: "Scan queued", description: "Check findings in a few moments" });
     },
   });
 
@@ -53,13 +80,22 @@ export default function Dashboard() {
   });
 
   const createSearchMutation = useMutation({
-    mutationFn: (data: { url: string; frequency: number; threshold: number }) => {
+    mutationFn: (data: { url: string; frequency: number; threshold: number; nearMissMin: number; jitter: number; analyzer: string | null; enrichment: string | null; maxPages: number; maxAgeHours: number | null; filterRules: FilterRules | null; triageMinScore: number | null; minMeltValuePercent: number | null }) => {
       const label = new URL(data.url).searchParams.get("search_text") || "Custom Search";
       return apiRequest("POST", "/api/searches", {
         vintedUrl: data.url,
         searchLabel: label,
         scanFrequencyHours: data.frequency,
         confidenceThreshold: data.threshold,
+        nearMissMinScore: data.nearMissMin,
+        scanJitterMinutes: data.jitter,
+        analyzerProvider: data.analyzer,
+        enrichmentMode: data.enrichment,
+        maxPages: data.maxPages,
+        maxListingAgeHours: data.maxAgeHours,
+        filterRules: data.filterRules,
+        triageMinScore: data.triageMinScore,
+        minMeltValuePercent: data.minMeltValuePercent,
         isActive: true,
       });
     },
@@ -85,6 +121,12 @@ export default function Dashboard() {
         </div>
       </div>
 
+      <ScraperAlertBanner alerts={scraperAlerts} onDismiss={(id) => dismissAlertMutation.mutate(id)} />
+
+      {usage && <AiUsageCard usage={usage} />}
+
+      {triageStats && triageStats.mode !== "off" && <TriageStatsCard stats={triageStats} />}
+
       <div className="grid gap-6 lg:grid-cols-2">
         <div className="space-y-4">
           <div className="flex items-center justify-between">
@@ -106,10 +148,13 @@ export default function Dashboard() {
                 key={search.id}
                 searchLabel={search.searchLabel}
                 vintedUrl={search.vintedUrl}
+                site={search.vintedDomain ?? search.source}
                 scanFrequency={search.scanFrequencyHours}
                 confidenceThreshold={search.confidenceThreshold}
+                scanJitterMinutes={search.scanJitterMinutes}
                 isActive={search.isActive}
                 lastScannedAt={search.lastScannedAt}
+                nextScanAt={search.nextScanAt}
                 status={getStatus(search)}
                 onToggle={() => updateMutation.mutate({ 
                   id: search.id, 
@@ -118,6 +163,7 @@ export default function Dashboard() {
                 onEdit={() => {}}
                 onDelete={() => deleteMutation.mutate(search.id)}
                 onTrigger={() => triggerMutation.mutate(search.id)}
+                onViewRuns={() => navigate(`/searches/${search.id}/runs`)}
               />
             ))}
           </div>
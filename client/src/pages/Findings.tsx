@@ -1,17 +1,101 @@
 import { ScanResultCard } from "@/components/ScanResultCard";
-import { Gem } from "lucide-react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import FindingStatusDialog from "@/components/FindingStatusDialog";
+import { findingStatusConfig } from "@/components/FindingStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Gem, RotateCcw } from "lucide-react";
+import { useDeferredValue, useState } from "react";
+import { useInfiniteQuery, useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Finding } from "@shared/schema";
+import {
+  findingStatusEnum,
+  mainMaterialEnum,
+  type Finding,
+  type FindingSort,
+  type SearchQueryWithSchedule,
+} from "@shared/schema";
+import { fetchFindings, type FindingsFilters } from "@/utils/findingsQuery";
 import { useToast } from "@/hooks/use-toast";
 
+const sortOptions: Record<string, { label: string; sort: FindingSort; order: "asc" | "desc" }> = {
+  newest: { label: "Newest first", sort: "foundAt", order: "desc" },
+  oldest: { label: "Oldest first", sort: "foundAt", order: "asc" },
+  confidence: { label: "Highest confidence", sort: "confidence", order: "desc" },
+  priceLow: { label: "Price: low to high", sort: "price", order: "asc" },
+  priceHigh: { label: "Price: high to low", sort: "price", order: "desc" },
+};
+
+const emptyFilters = {
+  q: "",
+  status: "all",
+  material: "all",
+  searchQueryId: "all",
+  minConfidence: "",
+  minPrice: "",
+  maxPrice: "",
+  foundFrom: "",
+  foundTo: "",
+  sort: "newest",
+};
+
+function toNumber(value: string): number | undefined {
+  return value === "" ? undefined : Number(value);
+}
+
+function toFilters(form: typeof emptyFilters): FindingsFilters {
+  const sort = sortOptions[form.sort];
+  return {
+    q: form.q.trim() || undefined,
+    status: form.status === "all" ? undefined : form.status,
+    material: form.material === "all" ? undefined : form.material,
+    searchQueryId: form.searchQueryId === "all" ? undefined : form.searchQueryId,
+    minConfidence: toNumber(form.minConfidence),
+    minPrice: toNumber(form.minPrice),
+    maxPrice: toNumber(form.maxPrice),
+    foundFrom: form.foundFrom ? new Date(`${form.foundFrom}T00:00:00`).toISOString() : undefined,
+    foundTo: form.foundTo ? new Date(`${form.foundTo}T23:59:59.999`).toISOString() : undefined,
+    sort: sort.sort,
+    order: sort.order,
+  };
+}
+
 export default function Findings() {
   const { toast } = useToast();
+  const [form, setForm] = useState(emptyFilters);
+  const [statusFinding, setStatusFinding] = useState<Finding | null>(null);
+  const filters = toFilters(useDeferredValue(form));
+
+  const setField = (field: keyof typeof emptyFilters) => (value: string) =>
+    setForm((current) => ({ ...current, [field]: value }));
 
-  const { data: findings = [], isLoading } = useQuery<Finding[]>({
-    queryKey: ["/api/findings"],
+  const { data: searches = [] } = useQuery<SearchQueryWithSchedule[]>({
+    queryKey: ["/api/searches"],
   });
 
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/findings", filters],
+    queryFn: ({ pageParam }) => fetchFindings(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const findings = data?.pages.flatMap((page) => page.items) ?? [];
+  const isFiltered = JSON.stringify(form) !== JSON.stringify(emptyFilters);
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => apiRequest("DELETE", `/api/findings/${id}`),
     onSuccess: () => {
@@ -20,9 +104,16 @@ export default function Findings() {
     },
   });
 
-  if (isLoading) {
-    return <div className="p-8">Loading...</div>;
-  }
+  const statusMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { status: string; changedBy: string; note: string } }) =>
+      apiRequest("POST", `/api/findings/${id}/status`, data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/findings"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/findings/${id}/history`] });
+      setStatusFinding(null);
+      toast({ title: "Status updated" });
+    },
+  });
 
   return (
     <div className="space-y-6">
@@ -33,27 +124,190 @@ export default function Findings() {
         </p>
       </div>
 
-      {findings.length > 0 ? (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {findings.map((finding) => (
-            <ScanResultCard
-              key={finding.id}
-              finding={finding}
-              onDelete={() => deleteMutation.mutate(finding.id)}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="filter-q">Title</Label>
+          <Input
+            id="filter-q"
+            placeholder="Search titles..."
+            value={form.q}
+            onChange={(e) => setField("q")(e.target.value)}
+            data-testid="input-filter-q"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-sort">Sort</Label>
+          <Select value={form.sort} onValueChange={setField("sort")}>
+            <SelectTrigger id="filter-sort" data-testid="select-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(sortOptions).map(([value, option]) => (
+                <SelectItem key={value} value={value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-status">Status</Label>
+          <Select value={form.status} onValueChange={setField("status")}>
+            <SelectTrigger id="filter-status" data-testid="select-status-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {findingStatusEnum.options.map((status) => (
+                <SelectItem key={status} value={status}>{findingStatusConfig[status].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-material">Material</Label>
+          <Select value={form.material} onValueChange={setField("material")}>
+            <SelectTrigger id="filter-material" data-testid="select-material-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All materials</SelectItem>
+              {mainMaterialEnum.options.map((material) => (
+                <SelectItem key={material} value={material}>{material.replace(/_/g, " ")}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-search">Search Query</Label>
+          <Select value={form.searchQueryId} onValueChange={setField("searchQueryId")}>
+            <SelectTrigger id="filter-search" data-testid="select-search-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All searches</SelectItem>
+              {searches.map((search) => (
+                <SelectItem key={search.id} value={search.id}>{search.searchLabel}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-confidence">Min Confidence (%)</Label>
+          <Input
+            id="filter-confidence"
+            type="number"
+            min="0"
+            max="100"
+            value={form.minConfidence}
+            onChange={(e) => setField("minConfidence")(e.target.value)}
+            data-testid="input-filter-confidence"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Price (€)</Label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min="0"
+              placeholder="Min"
+              value={form.minPrice}
+              onChange={(e) => setField("minPrice")(e.target.value)}
+              data-testid="input-filter-min-price"
             />
-          ))}
+            <Input
+              type="number"
+              min="0"
+              placeholder="Max"
+              value={form.maxPrice}
+              onChange={(e) => setField("maxPrice")(e.target.value)}
+              data-testid="input-filter-max-price"
+            />
+          </div>
         </div>
+
+        <div className="space-y-2 sm:col-span-2">
+          <Label>Found Between</Label>
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              value={form.foundFrom}
+              onChange={(e) => setField("foundFrom")(e.target.value)}
+              data-testid="input-filter-found-from"
+            />
+            <Input
+              type="date"
+              value={form.foundTo}
+              onChange={(e) => setField("foundTo")(e.target.value)}
+              data-testid="input-filter-found-to"
+            />
+          </div>
+        </div>
+
+        {isFiltered && (
+          <div className="flex items-end">
+            <Button variant="ghost" onClick={() => setForm(emptyFilters)} data-testid="button-reset-filters">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset filters
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="p-8">Loading...</div>
+      ) : findings.length > 0 ? (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {findings.map((finding) => (
+              <ScanResultCard
+                key={finding.id}
+                finding={finding}
+                onDelete={() => deleteMutation.mutate(finding.id)}
+                onManageStatus={() => setStatusFinding(finding)}
+              />
+            ))}
+          </div>
+
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-load-more"
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </>
       ) : (
         <div className="flex flex-col items-center justify-center py-16 text-center">
           <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
             <Gem className="w-8 h-8 text-muted-foreground" />
           </div>
-          <h3 className="text-lg font-semibold mb-2">No findings yet</h3>
+          <h3 className="text-lg font-semibold mb-2">
+            {isFiltered ? "No findings match these filters" : "No findings yet"}
+          </h3>
           <p className="text-sm text-muted-foreground max-w-md">
-            Once the AI detects valuable jewelry in your monitored searches, they'll appear here
+            {isFiltered
+              ? "Try widening the filters or reset them to see everything"
+              : "Once the AI detects valuable jewelry in your monitored searches, they'll appear here"}
           </p>
         </div>
       )}
+
+      <FindingStatusDialog
+        finding={statusFinding}
+        onOpenChange={(open) => !open && setStatusFinding(null)}
+        onSubmit={(data) => statusFinding && statusMutation.mutate({ id: statusFinding.id, data })}
+        isPending={statusMutation.isPending}
+      />
     </div>
   );
 }
@@ -0,0 +1,283 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PurchaseDialog, { type PurchaseFormData } from "@/components/PurchaseDialog";
+import { Pencil, Plus, ShoppingBag, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Purchase, ProfitStats, PurchaseSummary } from "@shared/schema";
+import { fetchFindings } from "@/utils/findingsQuery";
+import { useToast } from "@/hooks/use-toast";
+import { formatPrice } from "@shared/price";
+
+// Must match the server's BASE_CURRENCY
+const BASE_CURRENCY = import.meta.env.VITE_BASE_CURRENCY || "EUR";
+
+function formatAmount(value: number): string {
+  return formatPrice(value, BASE_CURRENCY);
+}
+
+function formatRoi(roi: number | null): string {
+  return roi === null ? "—" : `${Math.round(roi * 100)}%`;
+}
+
+function profitClass(value: number): string {
+  return value > 0 ? "text-primary" : value < 0 ? "text-destructive" : "";
+}
+
+function purchaseProfit(purchase: Purchase): number | null {
+  if (!purchase.soldAt || purchase.resalePrice === null) return null;
+  const cost = parseFloat(purchase.purchasePrice) + parseFloat(purchase.shippingCost) + parseFloat(purchase.buyerProtectionFee);
+  return parseFloat(purchase.resalePrice) - parseFloat(purchase.resaleFees) - cost;
+}
+
+function StatCard({ label, value, className = "" }: { label: string; value: string; className?: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-muted-foreground">{label}</p>
+        <p className={`text-2xl font-semibold font-mono mt-1 ${className}`}>{value}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function BreakdownTable({ title, rows }: { title: string; rows: (ProfitStats & { key: string; label: string })[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <h3 className="font-semibold text-base">{title}</h3>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead className="text-right">Bought</TableHead>
+                <TableHead className="text-right">Sold</TableHead>
+                <TableHead className="text-right">Profit</TableHead>
+                <TableHead className="text-right">ROI</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="max-w-[12rem] truncate capitalize">{row.label}</TableCell>
+                  <TableCell className="text-right font-mono">{row.purchases}</TableCell>
+                  <TableCell className="text-right font-mono">{row.sold}</TableCell>
+                  <TableCell className={`text-right font-mono ${profitClass(row.profit)}`}>{formatAmount(row.profit)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatRoi(row.roi)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No purchases yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Purchases() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editPurchase, setEditPurchase] = useState<Purchase | null>(null);
+
+  const { data: purchases = [], isLoading } = useQuery<Purchase[]>({
+    queryKey: ["/api/purchases"],
+  });
+
+  const { data: summary } = useQuery<PurchaseSummary>({
+    queryKey: ["/api/purchases/summary"],
+  });
+
+  const { data: recentFindings } = useQuery({
+    queryKey: ["/api/findings", { limit: 100 }],
+    queryFn: () => fetchFindings({ limit: 100 }),
+  });
+  const findings = recentFindings?.items ?? [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchases"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/purchases/summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/findings"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: PurchaseFormData) =>
+      editPurchase
+        ? apiRequest("PUT", `/api/purchases/${editPurchase.id}`, data)
+        : apiRequest("POST", "/api/purchases", data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editPurchase ? "Purchase updated" : "Purchase recorded" });
+      setDialogOpen(false);
+      setEditPurchase(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save purchase", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/purchases/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Purchase deleted" });
+    },
+  });
+
+  const linkedFindingIds = new Set(purchases.map((p) => p.findingId));
+  const purchasableFindings = findings.filter((f) => !linkedFindingIds.has(f.id));
+
+  if (isLoading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold" data-testid="heading-purchases">Purchases</h1>
+          <p className="text-muted-foreground mt-1">
+            What we bought, what it sold for, and which searches make money
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditPurchase(null);
+            setDialogOpen(true);
+          }}
+          data-testid="button-add-purchase"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Record Purchase
+        </Button>
+      </div>
+
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <StatCard label="Total spent" value={formatAmount(summary.total.totalCost)} />
+          <StatCard label="Resale revenue" value={formatAmount(summary.total.revenue)} />
+          <StatCard label="Profit on sold" value={formatAmount(summary.total.profit)} className={profitClass(summary.total.profit)} />
+          <StatCard label="ROI" value={formatRoi(summary.total.roi)} />
+        </div>
+      )}
+
+      {summary && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <BreakdownTable
+            title="By search"
+            rows={summary.perSearch.map((row) => ({
+              ...row,
+              key: row.searchQueryId ?? "none",
+              label: row.searchLabel ?? "No search",
+            }))}
+          />
+          <BreakdownTable
+            title="By tested material"
+            rows={summary.perMaterial.map((row) => ({
+              ...row,
+              key: row.material,
+              label: row.material.replace(/_/g, " "),
+            }))}
+          />
+        </div>
+      )}
+
+      {purchases.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead>Bought</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead>Material</TableHead>
+              <TableHead className="text-right">Weight</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead className="text-right">Resale</TableHead>
+              <TableHead className="text-right">Profit</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchases.map((purchase) => {
+              const cost = parseFloat(purchase.purchasePrice) + parseFloat(purchase.shippingCost) + parseFloat(purchase.buyerProtectionFee);
+              const profit = purchaseProfit(purchase);
+
+              return (
+                <TableRow key={purchase.id} data-testid={`row-purchase-${purchase.id}`}>
+                  <TableCell className="max-w-xs truncate">{purchase.listingTitle}</TableCell>
+                  <TableCell className="whitespace-nowrap">{new Date(purchase.purchasedAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(cost)}</TableCell>
+                  <TableCell className="capitalize">{purchase.testedMaterial?.replace(/_/g, " ") ?? "—"}</TableCell>
+                  <TableCell className="text-right font-mono">{purchase.weightGrams ? `${purchase.weightGrams}g` : "—"}</TableCell>
+                  <TableCell>{purchase.resaleChannel ?? "—"}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {purchase.resalePrice !== null ? formatAmount(parseFloat(purchase.resalePrice)) : "—"}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono ${profit !== null ? profitClass(profit) : ""}`}>
+                    {profit !== null ? formatAmount(profit) : "—"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-right">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditPurchase(purchase);
+                        setDialogOpen(true);
+                      }}
+                      data-testid="button-edit-purchase"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(purchase.id)}
+                      data-testid="button-delete-purchase"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+            <ShoppingBag className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">No purchases yet</h3>
+          <p className="text-sm text-muted-foreground max-w-md">
+            Record a purchase when you buy a finding to start tracking profit per search
+          </p>
+        </div>
+      )}
+
+      <PurchaseDialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) setEditPurchase(null);
+        }}
+        onSubmit={(data) => saveMutation.mutate(data)}
+        findings={purchasableFindings}
+        editData={editPurchase}
+        isPending={saveMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import NearMissCard from "@/components/NearMissCard";
+import { Inbox } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { AnalyzedListing, SearchQueryWithSchedule } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export default function ReviewQueue() {
+  const { toast } = useToast();
+
+  const { data: queue = [], isLoading } = useQuery<AnalyzedListing[]>({
+    queryKey: ["/api/review-queue"],
+  });
+
+  const { data: searches = [] } = useQuery<SearchQueryWithSchedule[]>({
+    queryKey: ["/api/searches"],
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async ({ id, sendAlert }: { id: string; sendAlert: boolean }) => {
+      const res = await apiRequest("POST", `/api/review-queue/${id}/promote`, { sendAlert });
+      return await res.json() as { alertSent: boolean };
+    },
+    onSuccess: (result, { sendAlert }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/findings"] });
+      toast({
+        title: "Promoted to finding",
+        description: sendAlert
+          ? result.alertSent ? "Telegram alert sent" : "Telegram alert could not be sent"
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not promote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/review-queue/${id}/dismiss`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold" data-testid="heading-review-queue">Review Queue</h1>
+        <p className="text-muted-foreground mt-1">
+          Near misses just under each search's alert threshold — promote the ones worth a closer look
+        </p>
+      </div>
+
+      {queue.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {queue.map((listing) => (
+            <NearMissCard
+              key={listing.id}
+              listing={listing}
+              searchLabel={searches.find((s) => s.id === listing.searchQueryId)?.searchLabel}
+              isPending={promoteMutation.isPending || dismissMutation.isPending}
+              onPromote={(sendAlert) => promoteMutation.mutate({ id: listing.id, sendAlert })}
+              onDismiss={() => dismissMutation.mutate(listing.id)}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+            <Inbox className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">Nothing to review</h3>
+          <p className="text-sm text-muted-foreground max-w-md">
+            Listings that score just below a search's confidence threshold will show up here
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
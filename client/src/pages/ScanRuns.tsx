@@ -0,0 +1,128 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, History } from "lucide-react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { ScanRun, SearchQueryWithSchedule } from "@shared/schema";
+import { timeAgo } from "@/utils/timeAgo";
+
+function formatDuration(run: ScanRun): string {
+  if (!run.finishedAt) return "—";
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+const statusStyles: Record<string, string> = {
+  queued: "bg-muted text-muted-foreground border-border",
+  running: "bg-chart-2/10 text-chart-2 border-chart-2/20",
+  completed: "bg-primary/10 text-primary border-primary/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+export default function ScanRuns() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: searches = [] } = useQuery<SearchQueryWithSchedule[]>({
+    queryKey: ["/api/searches"],
+  });
+
+  const { data: runs = [], isLoading } = useQuery<ScanRun[]>({
+    queryKey: [`/api/searches/${id}/runs`],
+  });
+
+  const search = searches.find((s) => s.id === id);
+
+  if (isLoading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Button asChild size="icon" variant="ghost" data-testid="button-back">
+          <Link href="/searches">
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-semibold" data-testid="heading-scan-runs">Scan Runs</h1>
+          <p className="text-muted-foreground mt-1">
+            {search ? search.searchLabel : "Search query"} — recent scan history and statistics
+          </p>
+        </div>
+      </div>
+
+      {runs.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead className="text-right">Scraped</TableHead>
+              <TableHead>Parser</TableHead>
+              <TableHead className="text-right">Pages</TableHead>
+              <TableHead className="text-right">Duplicates</TableHead>
+              <TableHead className="text-right">Filtered</TableHead>
+              <TableHead className="text-right">Enriched</TableHead>
+              <TableHead className="text-right">Triaged Out</TableHead>
+              <TableHead className="text-right">Analyzed</TableHead>
+              <TableHead className="text-right">Findings</TableHead>
+              <TableHead className="text-right">Alerts</TableHead>
+              <TableHead className="text-right">AI Errors</TableHead>
+              <TableHead>Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.map((run) => (
+              <TableRow key={run.id} data-testid={`row-scan-run-${run.id}`}>
+                <TableCell className="whitespace-nowrap">{timeAgo(run.startedAt)}</TableCell>
+                <TableCell className="capitalize">{run.trigger}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={statusStyles[run.status] ?? ""}>
+                    {run.status}
+                  </Badge>
+                </TableCell>
+                <TableCell className="font-mono">{formatDuration(run)}</TableCell>
+                <TableCell className="text-right font-mono">{run.listingsScraped}</TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">{run.extractionStrategy ?? "—"}</TableCell>
+                <TableCell className="text-right font-mono">{run.pagesScanned}</TableCell>
+                <TableCell className="text-right font-mono">{run.skippedDuplicates}</TableCell>
+                <TableCell className="text-right font-mono">{run.filteredOut}</TableCell>
+                <TableCell className="text-right font-mono">{run.enriched}</TableCell>
+                <TableCell className="text-right font-mono">{run.triagedOut}</TableCell>
+                <TableCell className="text-right font-mono">{run.analyzed}</TableCell>
+                <TableCell className="text-right font-mono">{run.findingsCreated}</TableCell>
+                <TableCell className="text-right font-mono">{run.alertsSent}</TableCell>
+                <TableCell className="text-right font-mono">{run.aiErrors}</TableCell>
+                <TableCell className="text-xs text-destructive max-w-xs truncate" title={run.errorMessage ?? undefined}>
+                  {run.errorMessage ?? ""}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+            <History className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">No scan runs yet</h3>
+          <p className="text-sm text-muted-foreground max-w-md">
+            Runs will appear here once this search has been scanned by the scheduler or triggered manually
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,16 +3,18 @@ import SearchQueryCard from "@/components/SearchQueryCard";
 import AddSearchDialog from "@/components/AddSearchDialog";
 import { Plus, Search as SearchIcon } from "lucide-react";
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { SearchQuery } from "@shared/schema";
+import type { SearchQuery, SearchQueryWithSchedule, FilterRules } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
 export default function SearchQueries() {
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const { toast } = useToast();
+  const [, navigate] = useLocation();
 
-  const { data: searches = [], isLoading } = useQuery<SearchQuery[]>({
+  const { data: searches = [], isLoading } = useQuery<SearchQueryWithSchedule[]>({
     queryKey: ["/api/searches"],
   });
 
@@ -35,18 +37,27 @@ export default function SearchQueries() {
   const triggerMutation = useMutation({
     mutationFn: (id: string) => apiRequest("POST", `/api/searches/${id}/trigger`),
     onSuccess: () => {
-      toast({ title: "Scan started", description: "Check findings in a few moments" });
+      toast({ title: "Scan queued", description: "Check findings in a few moments" });
     },
   });
 
   const createSearchMutation = useMutation({
-    mutationFn: (data: { url: string; frequency: number; threshold: number }) => {
+    mutationFn: (data: { url: string; frequency: number; threshold: number; nearMissMin: number; jitter: number; analyzer: string | null; enrichment: string | null; maxPages: number; maxAgeHours: number | null; filterRules: FilterRules | null; triageMinScore: number | null; minMeltValuePercent: number | null }) => {
       const label = new URL(data.url).searchParams.get("search_text") || "Custom Search";
       return apiRequest("POST", "/api/searches", {
         vintedUrl: data.url,
         searchLabel: label,
         scanFrequencyHours: data.frequency,
         confidenceThreshold: data.threshold,
+        nearMissMinScore: data.nearMissMin,
+        scanJitterMinutes: data.jitter,
+        analyzerProvider: data.analyzer,
+        enrichmentMode: data.enrichment,
+        maxPages: data.maxPages,
+        maxListingAgeHours: data.maxAgeHours,
+        filterRules: data.filterRules,
+        triageMinScore: data.triageMinScore,
+        minMeltValuePercent: data.minMeltValuePercent,
         isActive: true,
       });
     },
@@ -91,10 +102,13 @@ export default function SearchQueries() {
               key={search.id}
               searchLabel={search.searchLabel}
               vintedUrl={search.vintedUrl}
+              site={search.vintedDomain ?? search.source}
               scanFrequency={search.scanFrequencyHours}
               confidenceThreshold={search.confidenceThreshold}
+              scanJitterMinutes={search.scanJitterMinutes}
               isActive={search.isActive}
               lastScannedAt={search.lastScannedAt}
+              nextScanAt={search.nextScanAt}
               status={getStatus(search)}
               onToggle={() => updateMutation.mutate({ 
                 id: search.id, 
@@ -103,6 +117,7 @@ export default function SearchQueries() {
               onEdit={() => {}}
               onDelete={() => deleteMutation.mutate(search.id)}
               onTrigger={() => triggerMutation.mutate(search.id)}
+              onViewRuns={() => navigate(`/searches/${search.id}/runs`)}
             />
           ))}
         </div>
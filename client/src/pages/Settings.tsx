@@ -0,0 +1,174 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Coins, Upload } from "lucide-react";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { METALS, type Metal } from "@shared/hallmark-lexicon";
+import type { MetalPrice } from "@shared/schema";
+import { timeAgo } from "@/utils/timeAgo";
+
+const BASE_CURRENCY = import.meta.env.VITE_BASE_CURRENCY || "EUR";
+
+function MetalPriceRow({ metal, price, onSave, isPending }: {
+  metal: Metal;
+  price?: MetalPrice;
+  onSave: (pricePerGram: string) => void;
+  isPending: boolean;
+}) {
+  const [value, setValue] = useState(price ? parseFloat(price.pricePerGram).toString() : "");
+
+  return (
+    <TableRow data-testid={`row-metal-price-${metal}`}>
+      <TableCell className="capitalize font-medium">{metal}</TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="0"
+          step="0.0001"
+          placeholder="Not set"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-32 font-mono"
+          data-testid={`input-metal-price-${metal}`}
+        />
+      </TableCell>
+      <TableCell className="text-muted-foreground text-sm">
+        {price ? `${price.source === "csv" ? "CSV import" : "Manual"} · ${timeAgo(price.updatedAt)}` : "—"}
+      </TableCell>
+      <TableCell className="text-right">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!value || isPending}
+          onClick={() => onSave(value)}
+          data-testid={`button-save-metal-price-${metal}`}
+        >
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function Settings() {
+  const { toast } = useToast();
+
+  const { data: prices = [], isLoading } = useQuery<MetalPrice[]>({
+    queryKey: ["/api/metal-prices"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ metal, pricePerGram }: { metal: Metal; pricePerGram: string }) =>
+      apiRequest("PUT", `/api/metal-prices/${metal}`, { pricePerGram }),
+    onSuccess: (_, { metal }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/metal-prices"] });
+      toast({ title: `${metal[0].toUpperCase()}${metal.slice(1)} price saved` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save price", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (csv: string) => apiRequest("POST", "/api/metal-prices/import", { csv }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/metal-prices"] });
+      toast({ title: "Spot prices imported" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not import CSV", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) importMutation.mutate(await file.text());
+  };
+
+  if (isLoading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold" data-testid="heading-settings">Settings</h1>
+        <p className="text-muted-foreground mt-1">
+          Spot prices used to estimate the melt value of findings
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <Coins className="w-4 h-4 text-muted-foreground" />
+            <h3 className="font-semibold text-base">Metal Spot Prices</h3>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Price per gram of pure metal in {BASE_CURRENCY}. A listing stating a hallmark and a weight gets a melt value of
+            weight × fineness × this price; metals without a price get no estimate.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metal</TableHead>
+                <TableHead>{BASE_CURRENCY} per gram</TableHead>
+                <TableHead>Last set</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {METALS.map((metal) => {
+                const price = prices.find((p) => p.metal === metal);
+                return (
+                  <MetalPriceRow
+                    key={`${metal}-${price?.updatedAt ?? "unset"}`}
+                    metal={metal}
+                    price={price}
+                    onSave={(pricePerGram) => saveMutation.mutate({ metal, pricePerGram })}
+                    isPending={saveMutation.isPending}
+                  />
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="metal-prices-csv">Import from CSV</Label>
+            <p className="text-xs text-muted-foreground">
+              One <span className="font-mono">metal,price_per_gram</span> row per metal (gold, silver, platinum, palladium
+              or XAU, XAG, XPT, XPD); metals not in the file keep their price
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                id="metal-prices-csv"
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                onChange={handleFile}
+                disabled={importMutation.isPending}
+                className="max-w-sm"
+                data-testid="input-metal-prices-csv"
+              />
+              {importMutation.isPending && <Upload className="w-4 h-4 animate-pulse text-muted-foreground" />}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
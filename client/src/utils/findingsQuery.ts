@@ -0,0 +1,37 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { FindingSort, FindingsPage } from "@shared/schema";
+
+// Query parameters accepted by GET /api/findings; empty values are left out
+export interface FindingsFilters {
+  material?: string;
+  minConfidence?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  searchQueryId?: string;
+  source?: string;
+  status?: string;
+  foundFrom?: string;
+  foundTo?: string;
+  q?: string;
+  sort?: FindingSort;
+  order?: "asc" | "desc";
+  limit?: number;
+}
+
+export function findingsUrl(filters: FindingsFilters, cursor?: string | null): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "" && value !== null) {
+      params.set(key, String(value));
+    }
+  }
+  if (cursor) params.set("cursor", cursor);
+
+  const query = params.toString();
+  return query ? `/api/findings?${query}` : "/api/findings";
+}
+
+export async function fetchFindings(filters: FindingsFilters, cursor?: string | null): Promise<FindingsPage> {
+  const res = await apiRequest("GET", findingsUrl(filters, cursor));
+  return await res.json();
+}
@@ -0,0 +1,272 @@
+#!/usr/bin/env tsx
+
+/**
+ * Scraper Fixture Checks
+ *
+ * Runs the marketplace HTML parsers against saved pages in server/fixtures
+ * and checks the extracted listings, so markup changes can be caught offline.
+ * Each Vinted extraction strategy has its own fixture.
+ *
+ * Usage:
+ *   npm run test:scraper
+ */
+
+import assert from 'assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { VINTED_DOMAINS } from '../shared/vinted-domains';
+import { parseVintedSearch, parseVintedListing } from '../server/services/vinted-parser';
+import { parseMarktplaatsSearch, parseMarktplaatsListing } from '../server/services/marktplaats-marketplace';
+
+const FIXTURES_DIR = path.resolve('server/fixtures');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8');
+}
+
+const checks: { name: string; run: () => void }[] = [];
+
+function check(name: string, run: () => void) {
+  checks.push({ name, run });
+}
+
+// Vinted search pages
+
+check('vinted search: catalog_items JSON', () => {
+  const { listings, strategy } = parseVintedSearch(fixture('vinted/search-catalog-items.html'), VINTED_DOMAINS['vinted.nl']);
+  assert.equal(strategy, 'catalog_items');
+  assert.equal(listings.length, 3); // The item without an id is skipped
+
+  const [bracelet, lot, brooch] = listings;
+  assert.equal(bracelet.listingId, '4123456789');
+  assert.equal(bracelet.title, 'Oude zilveren armband');
+  assert.equal(bracelet.price, '12.5 EUR');
+  assert.equal(bracelet.priceAmount, 12.5);
+  assert.equal(bracelet.priceCurrency, 'EUR');
+  assert.deepEqual(bracelet.imageUrls, [
+    'https://images1.vinted.net/t/01_a1/f800/1.jpeg',
+    'https://images1.vinted.net/t/01_a1/f800/2.jpeg',
+  ]);
+  assert.equal(bracelet.listingUrl, 'https://www.vinted.nl/items/4123456789-oude-zilveren-armband');
+  assert.equal(bracelet.description, 'Gekocht op een rommelmarkt, stempel onleesbaar');
+  assert.deepEqual(bracelet.details, {
+    brand: 'Zilverstad',
+    condition: 'Goed',
+    size: 'One size',
+    sellerId: '1234567',
+    sellerName: 'rommelmarkt_ria',
+    uploadedAt: '2025-10-12T09:00:00.000Z',
+    favouriteCount: 7,
+    viewCount: 112,
+  });
+
+  // Brackets inside strings must not end the array early
+  assert.equal(lot.title, 'Sieraden lot [vintage]');
+  assert.deepEqual(lot.imageUrls, []);
+  assert.equal(lot.details, undefined);
+
+  // Items without a URL link to the search's own domain
+  assert.equal(brooch.listingUrl, 'https://www.vinted.nl/items/4123456791');
+  assert.equal(brooch.priceAmount, 5);
+});
+
+check('vinted search: __INITIAL_DATA__ items', () => {
+  const { listings, strategy } = parseVintedSearch(fixture('vinted/search-initial-data.html'), VINTED_DOMAINS['vinted.fr']);
+  assert.equal(strategy, 'initial_data');
+  assert.equal(listings.length, 2);
+
+  const [ring, necklaces] = listings;
+  assert.equal(ring.listingId, '5200000001');
+  assert.equal(ring.priceAmount, 22);
+  assert.equal(ring.listingUrl, 'https://www.vinted.fr/items/5200000001-bague-ancienne-argent-800');
+
+  // No currency code: falls back to the domain's currency
+  assert.equal(necklaces.priceAmount, 15);
+  assert.equal(necklaces.priceCurrency, 'EUR');
+  assert.equal(necklaces.listingUrl, 'https://www.vinted.fr/items/5200000002');
+  assert.deepEqual(necklaces.imageUrls, ['https://images1.vinted.net/t/02_b2/{size}/2.jpeg']);
+});
+
+check('vinted search: generic items JSON', () => {
+  const { listings, strategy } = parseVintedSearch(fixture('vinted/search-items.html'), VINTED_DOMAINS['vinted.pl']);
+  assert.equal(strategy, 'items');
+  assert.equal(listings.length, 2);
+  assert.equal(listings[0].priceAmount, 45);
+  assert.equal(listings[0].priceCurrency, 'PLN');
+  assert.equal(listings[1].price, '19,99 zł');
+  assert.equal(listings[1].priceAmount, 19.99);
+  assert.equal(listings[1].priceCurrency, 'PLN');
+});
+
+check('vinted search: DOM fallback', () => {
+  const { listings, strategy } = parseVintedSearch(fixture('vinted/search-dom.html'), VINTED_DOMAINS['vinted.de']);
+  assert.equal(strategy, 'dom');
+  assert.equal(listings.length, 2); // The tile without an item link is skipped
+
+  const [chain, ring] = listings;
+  assert.equal(chain.listingId, '7400000001');
+  assert.equal(chain.title, 'Silberkette 835');
+  assert.equal(chain.priceAmount, 14);
+  assert.equal(chain.listingUrl, 'https://www.vinted.de/items/7400000001-silberkette-835');
+  assert.equal(chain.imageUrls.length, 1);
+
+  assert.equal(ring.listingUrl, 'https://www.vinted.de/items/7400000002-goldring');
+  assert.equal(ring.priceAmount, 1250);
+  assert.equal(ring.imageUrls.length, 2);
+});
+
+check('vinted search: nothing to extract', () => {
+  const { listings, strategy } = parseVintedSearch(fixture('vinted/search-empty.html'), VINTED_DOMAINS['vinted.nl']);
+  assert.equal(strategy, null);
+  assert.deepEqual(listings, []);
+});
+
+// Vinted item pages
+
+check('vinted listing: __INITIAL_DATA__', () => {
+  const url = 'https://www.vinted.nl/items/4123456789-oude-zilveren-armband';
+  const { listing, strategy } = parseVintedListing(fixture('vinted/item-initial-data.html'), url, VINTED_DOMAINS['vinted.nl']);
+  assert.equal(strategy, 'initial_data');
+  assert.equal(listing.listingId, '4123456789');
+  assert.equal(listing.title, 'Oude zilveren armband');
+  assert.equal(listing.price, '12.50 EUR');
+  assert.equal(listing.priceAmount, 12.5);
+  assert.equal(listing.imageUrls.length, 2);
+  assert.equal(listing.description, 'Gekocht op een rommelmarkt; stempel {onleesbaar}.');
+  assert.equal(listing.listingUrl, url);
+  assert.deepEqual(listing.details, {
+    brand: 'Zilverstad',
+    condition: 'Zeer goed',
+    size: '18 cm',
+    category: 'Armbanden',
+    sellerId: '1234567',
+    sellerName: 'rommelmarkt_ria',
+    sellerRating: 4.8,
+    uploadedAt: '2026-10-12T09:00:00.000Z',
+    favouriteCount: 7,
+    viewCount: 112,
+  });
+});
+
+check('vinted listing: JSON-LD', () => {
+  const url = 'https://www.vinted.fr/items/5200000001-bague-ancienne-argent-800';
+  const { listing, strategy } = parseVintedListing(fixture('vinted/item-json-ld.html'), url, VINTED_DOMAINS['vinted.fr']);
+  assert.equal(strategy, 'json_ld');
+  assert.equal(listing.listingId, '5200000001');
+  assert.equal(listing.title, 'Bague ancienne argent 800');
+  assert.equal(listing.priceAmount, 22);
+  assert.equal(listing.priceCurrency, 'EUR');
+  assert.deepEqual(listing.imageUrls, ['https://images1.vinted.net/t/02_b2/f800/1.jpeg']);
+  assert.equal(listing.description, 'Poinçon tête de Minerve');
+  assert.deepEqual(listing.details, { brand: 'Christofle', condition: 'Used' });
+});
+
+check('vinted listing: meta tags', () => {
+  const url = 'https://www.vinted.pl/items/6300000001-srebrny-pierscionek-925';
+  const { listing, strategy } = parseVintedListing(fixture('vinted/item-meta.html'), url, VINTED_DOMAINS['vinted.pl']);
+  assert.equal(strategy, 'meta');
+  assert.equal(listing.title, 'Srebrny pierścionek 925');
+  assert.equal(listing.priceAmount, 45);
+  assert.equal(listing.priceCurrency, 'PLN'); // Bare amount in the domain's currency
+  assert.equal(listing.description, 'Pierścionek z próbą 925, rozmiar 16');
+});
+
+check('vinted listing: DOM fallback', () => {
+  const url = 'https://www.vinted.de/items/7400000001-silberkette-835';
+  const { listing, strategy } = parseVintedListing(fixture('vinted/item-dom.html'), url, VINTED_DOMAINS['vinted.de']);
+  assert.equal(strategy, 'dom');
+  assert.equal(listing.title, 'Silberkette 835');
+  assert.equal(listing.priceAmount, 14);
+  assert.deepEqual(listing.imageUrls, [
+    'https://images1.vinted.net/t/04_d4/f800/1.jpeg',
+    'https://images1.vinted.net/t/04_d4/f800/2.jpeg',
+  ]);
+  assert.equal(listing.description, 'Alte Silberkette, gestempelt 835');
+  assert.deepEqual(listing.details, { brand: 'Ohne Marke', condition: 'Sehr gut' });
+});
+
+// Marktplaats
+
+check('marktplaats search: __NEXT_DATA__ listings', () => {
+  const { listings, strategy } = parseMarktplaatsSearch(fixture('marktplaats/search-next-data.html'));
+  assert.equal(strategy, 'next_data');
+  assert.equal(listings.length, 3);
+
+  const [chain, box, ring] = listings;
+  assert.equal(chain.listingId, 'marktplaats:m2093712345');
+  assert.equal(chain.title, 'Oude zilveren ketting 835 keurmerk');
+  assert.equal(chain.price, '€ 25,00');
+  assert.equal(chain.priceAmount, 25);
+  assert.equal(chain.priceCurrency, 'EUR');
+  assert.equal(chain.listingUrl, 'https://www.marktplaats.nl/v/sieraden-tassen-en-uiterlijk/kettingen-en-hangers/m2093712345-oude-zilveren-ketting-835-keurmerk');
+  assert.deepEqual(chain.imageUrls, ['https://images.marktplaats.com/api/v1/listing-mp-p/images/a1/a1b2c3.jpg?rule=ecg_mp_eps$_85']);
+  assert.match(chain.description ?? '', /schakelketting/);
+  assert.deepEqual(chain.details, {
+    condition: 'Gebruikt',
+    sellerId: '5551234',
+    sellerName: 'Antiek Annie',
+    uploadedAt: '2026-10-12T09:30:00.000Z',
+  });
+
+  // Bidding listings have no price
+  assert.equal(box.price, 'Bieden');
+  assert.equal(box.priceAmount, null);
+  assert.equal(box.imageUrls.length, 2);
+
+  assert.equal(ring.priceAmount, 1234.5);
+  assert.deepEqual(ring.imageUrls, []);
+});
+
+check('marktplaats search: DOM fallback', () => {
+  const { listings, strategy } = parseMarktplaatsSearch(fixture('marktplaats/search-dom.html'));
+  assert.equal(strategy, 'dom');
+  assert.equal(listings.length, 2); // The ad tile without a listing link is skipped
+
+  const [brooch, earrings] = listings;
+  assert.equal(brooch.listingId, 'marktplaats:m2095566778');
+  assert.equal(brooch.title, 'Art deco broche zilver met markasiet');
+  assert.equal(brooch.priceAmount, 17.5);
+  assert.equal(brooch.priceCurrency, 'EUR');
+  assert.equal(brooch.imageUrls.length, 1);
+  assert.equal(brooch.description, 'Mooie broche uit de jaren 30, gemerkt 925.');
+
+  assert.equal(earrings.price, 'Bieden');
+  assert.equal(earrings.priceAmount, null);
+});
+
+check('marktplaats listing: JSON-LD product', () => {
+  const url = 'https://www.marktplaats.nl/v/sieraden-tassen-en-uiterlijk/kettingen-en-hangers/m2093712345-oude-zilveren-ketting-835-keurmerk';
+  const { listing, strategy } = parseMarktplaatsListing(fixture('marktplaats/item-jsonld.html'), url);
+  assert.equal(strategy, 'json_ld');
+  assert.ok(listing);
+  assert.equal(listing.listingId, 'marktplaats:m2093712345');
+  assert.equal(listing.title, 'Oude zilveren ketting 835 keurmerk');
+  assert.equal(listing.priceAmount, 25);
+  assert.equal(listing.priceCurrency, 'EUR');
+  assert.equal(listing.imageUrls.length, 2);
+  assert.equal(listing.listingUrl, url);
+});
+
+check('marktplaats listing: Open Graph fallback', () => {
+  const url = 'https://www.marktplaats.nl/v/sieraden-tassen-en-uiterlijk/ringen/m2091122334-gouden-ring-14-karaat';
+  const { listing, strategy } = parseMarktplaatsListing(fixture('marktplaats/item-og.html'), url);
+  assert.equal(strategy, 'og');
+  assert.ok(listing);
+  assert.equal(listing.title, 'Gouden ring 14 karaat');
+  assert.equal(listing.priceAmount, 1234.5);
+  assert.equal(listing.description, 'Gouden ring, gestempeld 585, maat 17.');
+});
+
+let failed = 0;
+for (const { name, run } of checks) {
+  try {
+    run();
+    console.log(`✅ ${name}`);
+  } catch (error: any) {
+    failed++;
+    console.error(`❌ ${name}\n   ${error.message}`);
+  }
+}
+
+console.log(`\n${checks.length - failed}/${checks.length} fixture checks passed`);
+process.exit(failed > 0 ? 1 : 0);
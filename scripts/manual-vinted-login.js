@@ -20,7 +20,8 @@ import fs from 'fs/promises';
 import path from 'path';
 
 const SESSION_FILE = process.env.VINTED_SESSION_FILE || './data/vinted-session.json';
-const VINTED_REGION = process.env.VINTED_REGION || 'NL';
+// Login happens on vinted.nl; scans set each search site's own country cookies
+const LOGIN_COUNTRY = 'NL';
 
 async function ensureDataDirectory() {
   const dataDir = path.dirname(SESSION_FILE);
@@ -36,7 +37,7 @@ async function setRegionCookies(page) {
   const regionCookies = [
     {
       name: 'country',
-      value: VINTED_REGION.toLowerCase(),
+      value: LOGIN_COUNTRY.toLowerCase(),
       domain: '.vinted.nl',
       path: '/',
       httpOnly: false,
@@ -44,7 +45,7 @@ async function setRegionCookies(page) {
     },
     {
       name: 'selected_country',
-      value: VINTED_REGION.toLowerCase(),
+      value: LOGIN_COUNTRY.toLowerCase(),
       domain: '.vinted.nl',
       path: '/',
       httpOnly: false,
@@ -88,7 +89,7 @@ async function saveCookies(page) {
     metadata: {
       savedAt: new Date().toISOString(),
       userAgent: await page.evaluate(() => navigator.userAgent),
-      region: VINTED_REGION
+      region: LOGIN_COUNTRY
     }
   };
 
@@ -102,7 +103,7 @@ async function saveCookies(page) {
 async function main() {
   console.log('🚀 Starting Vinted Manual Login Process');
   console.log(`📁 Session file: ${SESSION_FILE}`);
-  console.log(`🌍 Region: ${VINTED_REGION}`);
+  console.log(`🌍 Region: ${LOGIN_COUNTRY}`);
   console.log('');
   
   await ensureDataDirectory();
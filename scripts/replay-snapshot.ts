@@ -0,0 +1,103 @@
+#!/usr/bin/env tsx
+
+/**
+ * Pipeline Replay
+ *
+ * Re-runs listing extraction, and optionally the AI analysis, against a
+ * stored page snapshot (or a saved HTML file, e.g. a scraper alert download)
+ * without fetching anything from the marketplace.
+ *
+ * Usage:
+ *   npm run replay -- <snapshotId> [--listing <listingId>] [--analyze] [--provider mock]
+ *   npm run replay -- --file page.html --url <pageUrl> [--kind search|listing] [--listing <listingId>] [--analyze]
+ */
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { storage } from '../server/storage';
+import { pool } from '../server/db';
+import { replayPage, replaySnapshot, type ReplayResult } from '../server/services/page-snapshots';
+import { analyzerProviderEnum, pageSnapshotKindEnum } from '../shared/schema';
+import { detectMarketplaceSource } from '../shared/marketplaces';
+
+function printResult(result: ReplayResult) {
+  console.log(`\n🧩 Strategy: ${result.strategy ?? 'none matched'}`);
+  console.log(`📦 Listings: ${result.listings.length}`);
+  for (const listing of result.listings) {
+    console.log(`   • ${listing.listingId}  ${listing.title}  (${listing.price})`);
+  }
+
+  for (const analysis of result.analyses) {
+    console.log(`\n🧠 ${analysis.listingId} with ${analysis.provider} (${analysis.model})`);
+    console.log(`   Now:    ${analysis.result.confidence}% ${analysis.result.mainMaterialGuess}, valuable: ${analysis.result.isValuableLikely}`);
+    if (analysis.result.error) {
+      console.log(`   Error:  ${analysis.result.error}`);
+    }
+    if (analysis.previous) {
+      console.log(`   Before: ${analysis.previous.confidenceScore}% ${analysis.previous.mainMaterialGuess}, valuable: ${analysis.previous.isValuable} (${analysis.previous.analyzerProvider ?? 'unknown'})`);
+    }
+    console.log(`   Reasons: ${analysis.result.reasons.join('; ')}`);
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      file: { type: 'string' },
+      url: { type: 'string' },
+      kind: { type: 'string', default: 'search' },
+      listing: { type: 'string' },
+      analyze: { type: 'boolean', default: false },
+      provider: { type: 'string' },
+    },
+  });
+
+  const options = {
+    listingId: values.listing,
+    analyze: values.analyze,
+    provider: values.provider ? analyzerProviderEnum.parse(values.provider) : undefined,
+  };
+
+  if (values.file) {
+    if (!values.url) {
+      console.error('❌ --url is required with --file (it selects the marketplace and site)');
+      return 1;
+    }
+    const result = await replayPage({
+      kind: pageSnapshotKindEnum.parse(values.kind),
+      source: detectMarketplaceSource(values.url) ?? 'vinted',
+      url: values.url,
+      html: fs.readFileSync(values.file, 'utf-8'),
+    }, options);
+    printResult(result);
+    return 0;
+  }
+
+  const [snapshotId] = positionals;
+  if (!snapshotId) {
+    console.error('❌ Pass a snapshot id, or --file with --url');
+    return 1;
+  }
+
+  const snapshot = await storage.getPageSnapshot(snapshotId);
+  if (!snapshot) {
+    console.error(`❌ Snapshot ${snapshotId} not found`);
+    return 1;
+  }
+
+  const { snapshot: summary, ...result } = await replaySnapshot(snapshot, options);
+  console.log(`📸 ${summary.kind} snapshot of ${summary.url}, captured ${summary.capturedAt.toISOString()} (${summary.strategy ?? 'no strategy'} at the time)`);
+  printResult(result);
+  return 0;
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Replay failed:', error.message);
+    return 1;
+  })
+  .then(async (code) => {
+    await pool.end();
+    process.exit(code);
+  });
@@ -3,7 +3,11 @@ import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { startScheduler } from "./scheduler";
+import { startWorker, stopWorker } from "./worker";
 import { testConnection } from "./db";
+import { browserPool } from "./utils/browser-pool";
+import { loadMetalPricesFile } from "./services/melt-value";
+import { storage } from "./storage";
 
 const app = express();
 
@@ -56,6 +60,16 @@ app.use((req, res, next) => {
   next();
 });
 
+// Correct the Vinted domain of searches created before it was derived from their URL
+async function backfillVintedDomains() {
+  try {
+    const corrected = await storage.backfillVintedDomains();
+    if (corrected > 0) log(`🌍 Corrected the Vinted domain of ${corrected} search(es) from their URL`);
+  } catch (error: any) {
+    log(`⚠️ Could not backfill Vinted domains: ${error.message}`);
+  }
+}
+
 (async () => {
   const server = await registerRoutes(app);
 
@@ -93,9 +107,23 @@ app.use((req, res, next) => {
         log("❌ Database connection failed! Data persistence will not work.");
       } else {
         log("✅ Database connection successful!");
+        await backfillVintedDomains();
+        await loadMetalPricesFile();
       }
       
       startScheduler();
+      startWorker();
     }
   );
+
+  // Graceful shutdown: Render sends SIGTERM on every deploy and restart
+  const shutdown = async (signal: string) => {
+    log(`🛑 ${signal} received, shutting down...`);
+    stopWorker();
+    await browserPool.shutdown();
+    server.close(() => process.exit(0));
+    setTimeout(() => process.exit(0), 5000).unref(); // don't wait on idle keep-alive connections
+  };
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
 })();
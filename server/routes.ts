@@ -1,14 +1,36 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertSearchQuerySchema, insertManualScanSchema } from "@shared/schema";
-import { scrapeVintedListing } from "./services/vinted-scraper";
-import { analyzeJewelryImages } from "./services/openai-analyzer";
-import { scanSearchQuery } from "./services/scanner";
+import {
+  insertSearchQuerySchema,
+  insertManualScanSchema,
+  insertPurchaseSchema,
+  insertMetalPriceSchema,
+  scanTriggerEnum,
+  findingStatusEnum,
+  findingsQuerySchema,
+  pageSnapshotKindEnum,
+  analyzerProviderEnum,
+  filterRuleEnum,
+} from "@shared/schema";
+import { getMarketplaceForUrl, withCanonicalId } from "./services/marketplace";
+import { getAnalyzer } from "./services/analyzer";
+import { detectHallmarksInPhotos } from "./services/hallmark-ocr";
+import { enqueueScan } from "./services/scanner";
+import { withNextScanAt } from "./services/scan-schedule";
+import { getBudgetStatus, getUsageSummary, recordAiUsage } from "./services/ai-usage";
+import { getTriageStats } from "./services/triage";
 import { sendTelegramAlert } from "./services/telegram";
+import { decompressPage, savePageSnapshot, replaySnapshot } from "./services/page-snapshots";
+import { promoteNearMiss } from "./services/findings";
+import { recordPurchase, updatePurchase, getPurchaseSummary } from "./services/purchases";
+import { importMetalPricesCsv } from "./services/melt-value";
+import { currencyConverter } from "./utils/currency";
+import { browserPool } from "./utils/browser-pool";
 import { db, testConnection, pool } from "./db";
 import { searchQueries, manualScans, findings } from "@shared/schema";
 import { sql } from "drizzle-orm";
+import { z } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Database Health Check Route
@@ -81,7 +103,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("📋 Getting all search queries...");
       const searches = await storage.getSearchQueries();
       console.log(`✅ Found ${searches.length} search queries`);
-      res.json(searches);
+      res.json(searches.map(withNextScanAt));
     } catch (error: any) {
       console.error("❌ Error getting searches:", error.message);
       res.status(500).json({ error: error.message });
@@ -106,7 +128,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/searches/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const updated = await storage.updateSearchQuery(id, req.body);
+      const parsed = insertSearchQuerySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const updated = await storage.updateSearchQuery(id, parsed.data);
       
       if (!updated) {
         return res.status(404).json({ error: "Search query not found" });
@@ -142,11 +169,270 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Search query not found" });
       }
 
-      scanSearchQuery(searchQuery).catch(err => {
-        console.error("Background scan error:", err);
+      // External callers (e.g. the Netlify cron function) pass { trigger: "external" }
+      const trigger = scanTriggerEnum.catch('manual').parse(req.body?.trigger);
+
+      const run = await enqueueScan(searchQuery, trigger);
+      if (!run) {
+        return res.json({ success: true, message: "Scan already queued" });
+      }
+
+      const budget = await getBudgetStatus();
+      const message = budget.exceeded
+        ? `Scan queued - AI budget exceeded, analysis paused until ${budget.pausedUntil}`
+        : "Scan queued";
+
+      res.json({ success: true, message, scanRunId: run.id });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/searches/:id/runs", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const searchQuery = await storage.getSearchQuery(id);
+
+      if (!searchQuery) {
+        return res.status(404).json({ error: "Search query not found" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const runs = await storage.getScanRuns(id, limit);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Job Queue
+  app.get("/api/jobs/stats", async (req, res) => {
+    try {
+      const stats = await storage.getJobStats();
+      res.json(stats);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const jobList = await storage.getJobs(status, limit);
+      res.json(jobList);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/jobs/:id/retry", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const job = await storage.requeueJob(id);
+
+      if (!job) {
+        return res.status(404).json({ error: "Dead-lettered job not found, or an open job with its dedupe key exists" });
+      }
+
+      res.json(job);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Scraper Alerts (parser drift)
+  app.get("/api/scraper-alerts", async (req, res) => {
+    try {
+      const alerts = await storage.getOpenScraperAlerts();
+      res.json(alerts);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/scraper-alerts/:id/resolve", async (req, res) => {
+    try {
+      const alert = await storage.resolveScraperAlert(req.params.id);
+
+      if (!alert) {
+        return res.status(404).json({ error: "Scraper alert not found" });
+      }
+
+      res.json(alert);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // The scraped page that triggered the alert, as a download
+  app.get("/api/scraper-alerts/:id/page", async (req, res) => {
+    try {
+      const alert = await storage.getScraperAlert(req.params.id);
+
+      if (!alert?.rawPage) {
+        return res.status(404).json({ error: "Scraped page not found" });
+      }
+
+      const html = decompressPage(alert.rawPage);
+      const date = alert.createdAt.toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="scrape-${alert.id}-${date}.html"`);
+      res.send(html);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Page Snapshots (stored when PAGE_SNAPSHOTS=true)
+  app.get("/api/snapshots", async (req, res) => {
+    try {
+      const snapshots = await storage.getPageSnapshots({
+        searchQueryId: typeof req.query.searchQueryId === "string" ? req.query.searchQueryId : undefined,
+        listingId: typeof req.query.listingId === "string" ? req.query.listingId : undefined,
+        kind: pageSnapshotKindEnum.safeParse(req.query.kind).data,
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
       });
-      
-      res.json({ success: true, message: "Scan started" });
+      res.json(snapshots);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Re-run extraction (and optionally analysis) on a snapshot without touching the marketplace
+  app.post("/api/snapshots/:id/replay", async (req, res) => {
+    try {
+      const snapshot = await storage.getPageSnapshot(req.params.id);
+
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      const options = z.object({
+        listingId: z.string().optional(),
+        analyze: z.boolean().optional(),
+        provider: analyzerProviderEnum.nullable().optional(),
+      }).parse(req.body ?? {});
+
+      const result = await replaySnapshot(snapshot, options);
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // AI Usage & Budget
+  app.get("/api/usage", async (req, res) => {
+    try {
+      const days = Math.min(parseInt(req.query.days as string) || 30, 365);
+      const summary = await getUsageSummary(days);
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Triage stage: how many listings it escalated, dropped and shadowed, and the finds among them
+  app.get("/api/triage/stats", async (req, res) => {
+    try {
+      const days = Math.min(parseInt(req.query.days as string) || 30, 365);
+      const stats = await getTriageStats(days);
+      res.json(stats);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Analyzed Listings (every analysis, including rejections)
+  app.get("/api/analyzed-listings", async (req, res) => {
+    try {
+      const parseScore = (value: unknown) => {
+        const score = parseInt(value as string);
+        return Number.isNaN(score) ? undefined : score;
+      };
+
+      const listings = await storage.getAnalyzedListings({
+        searchQueryId: (req.query.searchQueryId as string) || undefined,
+        minScore: parseScore(req.query.minScore),
+        maxScore: parseScore(req.query.maxScore),
+        isValuable: req.query.isValuable === undefined ? undefined : req.query.isValuable === 'true',
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
+      });
+      res.json(listings);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Filtered Listings (rejected by a search's filter rules before analysis)
+  app.get("/api/filtered-listings", async (req, res) => {
+    try {
+      const rule = filterRuleEnum.safeParse(req.query.rule);
+      const listings = await storage.getFilteredListings({
+        searchQueryId: (req.query.searchQueryId as string) || undefined,
+        rule: rule.success ? rule.data : undefined,
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
+      });
+      res.json(listings);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // How often each rule fired, to spot rules that are too strict or never match
+  app.get("/api/filtered-listings/stats", async (req, res) => {
+    try {
+      const counts = await storage.getFilterRuleCounts((req.query.searchQueryId as string) || undefined);
+      res.json(counts);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Near-miss Review Queue
+  app.get("/api/review-queue", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const queue = await storage.getReviewQueue(limit);
+      res.json(queue);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/review-queue/:id/promote", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const listing = await storage.getAnalyzedListingById(id);
+
+      if (!listing || listing.reviewStatus !== 'pending') {
+        return res.status(404).json({ error: "Review item not found" });
+      }
+
+      // The listing may have become a finding since, e.g. through a manual scan or an earlier promotion
+      const existingFinding = await storage.getFindingByListingId(listing.listingId);
+      if (existingFinding) {
+        return res.status(409).json({ error: "Listing already has a finding", findingId: existingFinding.id });
+      }
+
+      const { finding, alertSent } = await promoteNearMiss(listing, req.body?.sendAlert === true);
+      res.json({ success: true, finding, alertSent });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/review-queue/:id/dismiss", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const listing = await storage.getAnalyzedListingById(id);
+
+      if (!listing || listing.reviewStatus !== 'pending') {
+        return res.status(404).json({ error: "Review item not found" });
+      }
+
+      await storage.setReviewStatus(id, 'dismissed');
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -155,8 +441,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Findings
   app.get("/api/findings", async (req, res) => {
     try {
-      const findings = await storage.getFindings();
-      res.json(findings);
+      const parsed = findingsQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const page = await storage.queryFindings(parsed.data);
+      if (!page) {
+        return res.status(400).json({ error: "Stale cursor: the finding it points to no longer exists, start again from the first page" });
+      }
+      res.json(page);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -177,6 +472,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/findings/:id/status", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = findingStatusEnum.safeParse(req.body?.status);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid status, expected one of: ${findingStatusEnum.options.join(', ')}` });
+      }
+
+      const updated = await storage.updateFindingStatus(id, parsed.data, {
+        changedBy: typeof req.body.changedBy === 'string' && req.body.changedBy.trim() ? req.body.changedBy.trim() : null,
+        note: typeof req.body.note === 'string' && req.body.note.trim() ? req.body.note.trim() : null,
+      });
+
+      if (!updated) {
+        return res.status(404).json({ error: "Finding not found" });
+      }
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/findings/:id/history", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const finding = await storage.getFinding(id);
+
+      if (!finding) {
+        return res.status(404).json({ error: "Finding not found" });
+      }
+
+      const history = await storage.getFindingStatusHistory(id);
+      res.json(history);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Purchases & Resale Ledger
+  app.get("/api/purchases", async (req, res) => {
+    try {
+      const purchaseList = await storage.getPurchases();
+      res.json(purchaseList);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/purchases/summary", async (req, res) => {
+    try {
+      const summary = await getPurchaseSummary();
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/purchases", async (req, res) => {
+    try {
+      const validated = insertPurchaseSchema.extend({ listingTitle: z.string().optional() }).parse(req.body);
+      const purchase = await recordPurchase(validated);
+      res.json(purchase);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/purchases/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = insertPurchaseSchema.partial().parse(req.body);
+      const updated = await updatePurchase(id, validated);
+
+      if (!updated) {
+        return res.status(404).json({ error: "Purchase not found" });
+      }
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/purchases/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deletePurchase(id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Purchase not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Metal spot prices (per gram of pure metal, base currency) for melt value estimates
+  app.get("/api/metal-prices", async (req, res) => {
+    try {
+      const prices = await storage.getMetalPrices();
+      res.json(prices);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/metal-prices/:metal", async (req, res) => {
+    try {
+      const validated = insertMetalPriceSchema.parse({ ...req.body, metal: req.params.metal, source: 'manual' });
+      const price = await storage.upsertMetalPrice(validated);
+      res.json(price);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Replace the prices of the metals listed in a CSV (metal,price_per_gram)
+  app.post("/api/metal-prices/import", async (req, res) => {
+    try {
+      const { csv } = z.object({ csv: z.string().min(1) }).parse(req.body);
+      const prices = await importMetalPricesCsv(csv);
+      res.json(prices);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // Manual Analysis
   app.post("/api/analyze-listing", async (req, res) => {
     // Add cache-busting headers
@@ -187,12 +613,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
     
     try {
-      const { url } = req.body;
+      const { url, provider } = req.body;
       
       // Validate URL
-      if (!url || !url.includes('vinted')) {
+      const marketplace = typeof url === 'string' ? getMarketplaceForUrl(url) : null;
+      if (!marketplace) {
         return res.status(400).json({
-          error: 'Invalid Vinted URL',
+          error: 'Invalid listing URL - expected a Vinted or Marktplaats listing',
           isValuable: false,
           confidence: 0,
           detectedMaterials: [],
@@ -201,25 +628,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const listing = await scrapeVintedListing(url);
-      
+      // A search or profile URL on a supported site has no canonical listing id
+      if (!marketplace.canonicalId(url)) {
+        return res.status(400).json({
+          error: `Not a ${marketplace.source} listing URL`,
+          isValuable: false,
+          confidence: 0,
+          detectedMaterials: [],
+          reasons: ['URL does not point to a single listing'],
+          lotType: 'single'
+        });
+      }
+
+      const fetched = await marketplace.fetchListing(url);
+      const { strategy, pageHtml } = fetched;
+      const listing = fetched.listing && withCanonicalId(marketplace, fetched.listing);
+      await savePageSnapshot({
+        kind: 'listing',
+        source: marketplace.source,
+        url: listing?.listingUrl ?? url,
+        listingIds: listing ? [listing.listingId] : [],
+        strategy,
+        html: pageHtml,
+      });
+
       if (!listing) {
         return res.status(404).json({
           error: "Could not fetch listing",
           isValuable: false,
           confidence: 0,
           detectedMaterials: [],
-          reasons: ['Failed to fetch listing from Vinted'],
+          reasons: [`Failed to fetch listing from ${marketplace.source}`],
           lotType: 'single'
         });
       }
 
-      const analysis = await analyzeJewelryImages(
-        listing.imageUrls,
-        listing.title,
-        listing.description,
-        url
-      );
+      const analyzer = getAnalyzer(provider);
+      const detectedHallmarks = await detectHallmarksInPhotos(listing.imageUrls);
+      const analysis = await analyzer.analyze({
+        imageUrls: listing.imageUrls,
+        title: listing.title,
+        description: listing.description,
+        listingUrl: url,
+        details: listing.details,
+        detectedHallmarks: detectedHallmarks ?? undefined,
+      });
+      await recordAiUsage(analyzer, analysis.usage, { listingId: listing.listingId });
 
       // Create manual scan record
       const scan = await storage.createManualScan({
@@ -232,6 +686,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isValuable: analysis.isValuableLikely,
         lotType: 'mixed', // Antique dealer approach
         price: listing.price,
+        details: listing.details ?? null,
+        ...currencyConverter.toPriceColumns(
+          listing.priceAmount !== null && listing.priceCurrency
+            ? { amount: listing.priceAmount, currency: listing.priceCurrency }
+            : null
+        ),
       });
       
       console.log("✅ Created manual scan:", scan);
@@ -305,8 +765,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Health check
-  app.get("/api/health", (req, res) => {
-    res.json({ status: "ok" });
+  app.get("/api/health", async (req, res) => {
+    res.json({ status: "ok", browser: await browserPool.getStats() });
   });
 
   const httpServer = createServer(app);
@@ -1,19 +1,14 @@
 import * as cron from "node-cron";
 import { storage } from "./storage";
-import { scanSearchQuery } from "./services/scanner";
+import { enqueueScan } from "./services/scanner";
+import { getNextScanAt, isScanDue } from "./services/scan-schedule";
+import { getBudgetStatus } from "./services/ai-usage";
+import { pruneSnapshots } from "./services/page-snapshots";
+import { VINTED_DOMAINS, vintedOrigin, type VintedDomain } from "@shared/vinted-domains";
+import type { SearchQuery } from "@shared/schema";
 
 let isRunning = false;
 
-// Smart anti-blocking configuration
-const MIN_INTERVAL_MINUTES = parseInt(process.env.SCAN_MIN_INTERVAL_MINUTES || '70'); // 70 minutes
-const MAX_INTERVAL_MINUTES = parseInt(process.env.SCAN_MAX_INTERVAL_MINUTES || '150'); // 150 minutes
-const BASE_INTERVAL_HOURS = parseInt(process.env.SCAN_FREQUENCY_HOURS || '2'); // 2 hours base
-
-function getRandomInterval(): number {
-  // Return random interval between min and max minutes
-  return Math.floor(Math.random() * (MAX_INTERVAL_MINUTES - MIN_INTERVAL_MINUTES)) + MIN_INTERVAL_MINUTES;
-}
-
 function getHumanLikeDelay(): number {
   // Add human-like behavior patterns
   const patterns = [
@@ -28,22 +23,22 @@ function getHumanLikeDelay(): number {
   return weightedPatterns[Math.floor(Math.random() * weightedPatterns.length)];
 }
 
-async function checkSessionHealth(): Promise<boolean> {
+async function checkSessionHealth(domain: VintedDomain): Promise<boolean> {
   try {
-    // Check if we can still access Vinted (basic health check)
-    const testUrl = "https://www.vinted.com";
-    const response = await fetch(testUrl, {
+    // Check if we can still access this Vinted site (basic health check)
+    const response = await fetch(vintedOrigin(domain), {
       method: 'HEAD',
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+        'Accept-Language': domain.acceptLanguage,
       }
     });
     
     const isHealthy = response.ok || response.status === 403; // 403 is expected for authenticated areas
-    console.log(`🔍 Session health check: ${isHealthy ? 'Healthy' : 'Issues detected'}`);
+    console.log(`🔍 Session health check (${domain.host}): ${isHealthy ? 'Healthy' : 'Issues detected'}`);
     return isHealthy;
   } catch (error) {
-    console.warn("⚠️ Session health check failed:", error.message);
+    console.warn(`⚠️ Session health check failed (${domain.host}):`, error.message);
     return false;
   }
 }
@@ -58,63 +53,72 @@ async function runScheduledScans() {
   console.log("\n🔍 Running scheduled scans...");
 
   try {
-    // Pre-scan session health check
-    const sessionHealthy = await checkSessionHealth();
-    if (!sessionHealthy) {
-      console.log("⚠️ Session health check failed, delaying scans by 30 minutes");
-      await new Promise(resolve => setTimeout(resolve, 30 * 60 * 1000));
+    // Automated scanning pauses while the AI budget is used up
+    const budget = await getBudgetStatus();
+    if (budget.exceeded) {
+      console.log(`💸 AI budget exceeded, automated scans paused until ${budget.pausedUntil}`);
+      await storage.deleteExpiredFindings();
+      await pruneSnapshots();
       return;
     }
 
     const searches = await storage.getSearchQueries();
     const activeSearches = searches.filter((s) => s.isActive);
-    let processedSearches = 0;
+
+    // Pre-scan session health check, once per Vinted site in use (other marketplaces need no session)
+    const domainsInUse = new Set(activeSearches.flatMap((s) => s.vintedDomain ? [s.vintedDomain] : []));
+    const unhealthyDomains = new Set<string>();
+    for (const host of domainsInUse) {
+      if (!(await checkSessionHealth(VINTED_DOMAINS[host]))) {
+        unhealthyDomains.add(host);
+      }
+    }
+    const isBlocked = (search: SearchQuery) => !!search.vintedDomain && unhealthyDomains.has(search.vintedDomain);
+    if (activeSearches.length > 0 && activeSearches.every(isBlocked)) {
+      console.log("⚠️ Session health check failed on every site, delaying scans by 30 minutes");
+      await new Promise(resolve => setTimeout(resolve, 30 * 60 * 1000));
+      return;
+    }
+    let queuedSearches = 0;
+    let startOffsetMs = 0;
 
     for (const search of activeSearches) {
+      if (isBlocked(search)) {
+        console.log(`⏭️ Skipping ${search.searchLabel} - session health check failed on ${search.vintedDomain}`);
+        continue;
+      }
+
       const now = new Date();
       const minutesSinceLastScan = search.lastScannedAt
         ? (now.getTime() - search.lastScannedAt.getTime()) / (1000 * 60)
         : Infinity;
 
-      const requiredInterval = getRandomInterval(); // 70-150 minutes
-      
-      if (minutesSinceLastScan >= requiredInterval) {
-        console.log(`🔎 Scanning: ${search.searchLabel} (last scanned ${Math.floor(minutesSinceLastScan)}m ago, interval: ${requiredInterval}m)`);
-        
+      // Per-search cadence: scanFrequencyHours ± scanJitterMinutes
+      if (isScanDue(search, now)) {
+        console.log(`🔎 Queueing: ${search.searchLabel} (last scanned ${Math.floor(minutesSinceLastScan)}m ago, every ${search.scanFrequencyHours}h ±${search.scanJitterMinutes}m)`);
+
         try {
-          await scanSearchQuery(search);
-          processedSearches++;
-          
-          console.log(`✅ Completed: ${search.searchLabel}`);
-          
-          // Human-like delay between searches
-          const humanDelay = getHumanLikeDelay();
-          console.log(`⏳ Taking ${Math.floor(humanDelay / 60000)}m ${(humanDelay % 60000) / 1000}s break...`);
-          await new Promise(resolve => setTimeout(resolve, humanDelay));
-          
-          // Memory management
-          if (global.gc && processedSearches % 3 === 0) {
-            global.gc();
-            console.log("🧹 Memory cleanup performed");
-          }
-          
-        } catch (scanError: any) {
-          console.error(`❌ Error scanning ${search.searchLabel}:`, scanError.message);
-          
-          // If we hit a rate limit, extend the delay
-          if (scanError.message.includes('429') || scanError.message.includes('Too Many Requests')) {
-            console.log("🚫 Rate limit detected, extending delay by 30 minutes");
-            await new Promise(resolve => setTimeout(resolve, 30 * 60 * 1000));
+          // Stagger queued scans with human-like breaks instead of firing them back to back
+          const run = await enqueueScan(search, 'cron', new Date(now.getTime() + startOffsetMs));
+          if (run) {
+            queuedSearches++;
+            const humanDelay = getHumanLikeDelay();
+            console.log(`⏳ Next search starts ${Math.floor(humanDelay / 60000)}m ${(humanDelay % 60000) / 1000}s later`);
+            startOffsetMs += humanDelay;
           }
+        } catch (queueError: any) {
+          console.error(`❌ Error queueing ${search.searchLabel}:`, queueError.message);
         }
       } else {
-        console.log(`⏭️ Skipping ${search.searchLabel} - scanned ${Math.floor(minutesSinceLastScan)}m ago (need ${requiredInterval}m interval)`);
+        const minutesUntilDue = Math.ceil((getNextScanAt(search)!.getTime() - now.getTime()) / (1000 * 60));
+        console.log(`⏭️ Skipping ${search.searchLabel} - scanned ${Math.floor(minutesSinceLastScan)}m ago (next scan in ${minutesUntilDue}m)`);
       }
     }
 
     await storage.deleteExpiredFindings();
+    await pruneSnapshots();
     
-    const summary = processedSearches > 0 ? `Processed ${processedSearches} searches` : 'No searches processed';
+    const summary = queuedSearches > 0 ? `Queued ${queuedSearches} searches` : 'No searches queued';
     console.log(`✅ Scheduled scans complete - ${summary}\n`);
     
   } catch (error: any) {
@@ -137,8 +141,8 @@ export function startScheduler() {
   });
 
   console.log(`📅 Enhanced Scheduler Started:`);
-  console.log(`   • Random intervals: ${MIN_INTERVAL_MINUTES}-${MAX_INTERVAL_MINUTES} minutes`);
-  console.log(`   • Human-like delays between searches`);
+  console.log(`   • Per-search scan frequency with jitter windows`);
+  console.log(`   • Human-like delays between queued searches`);
   console.log(`   • Session health monitoring`);
   console.log(`   • Anti-blocking strategies active`);
 }
@@ -0,0 +1,136 @@
+import { storage } from "../storage";
+import type { Analyzer, AnalysisUsage } from "./analyzer";
+import type { AiUsageSummary } from "@shared/schema";
+
+// USD per 1M tokens [input, output]. Override or extend with AI_MODEL_PRICES='{"model":[in,out]}'
+const DEFAULT_MODEL_PRICES: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.60],
+  'gpt-4o': [2.50, 10.00],
+  'gpt-4.1-mini': [0.40, 1.60],
+  'gpt-4.1-nano': [0.10, 0.40],
+};
+
+const MODEL_PRICES: Record<string, [number, number]> = {
+  ...DEFAULT_MODEL_PRICES,
+  ...parseModelPrices(process.env.AI_MODEL_PRICES),
+};
+
+// Empty = no cap
+const DAILY_BUDGET_USD = parseBudget(process.env.AI_DAILY_BUDGET_USD);
+const MONTHLY_BUDGET_USD = parseBudget(process.env.AI_MONTHLY_BUDGET_USD);
+
+function parseModelPrices(raw: string | undefined): Record<string, [number, number]> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error: any) {
+    console.warn("⚠️ Could not parse AI_MODEL_PRICES:", error.message);
+    return {};
+  }
+}
+
+function parseBudget(raw: string | undefined): number | null {
+  const value = parseFloat(raw || '');
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function startOfDay(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function startOfMonth(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Estimated cost in USD. Local and mock providers are free; unknown
+ * OpenAI models are priced as gpt-4o-mini so they don't go unnoticed.
+ */
+export function estimateCostUsd(analyzer: Pick<Analyzer, 'provider' | 'model'>, usage: AnalysisUsage): number {
+  if (analyzer.provider !== 'openai') return 0;
+  const [inputPrice, outputPrice] = MODEL_PRICES[analyzer.model] ?? DEFAULT_MODEL_PRICES['gpt-4o-mini'];
+  return (usage.promptTokens * inputPrice + usage.completionTokens * outputPrice) / 1_000_000;
+}
+
+export async function recordAiUsage(
+  analyzer: Pick<Analyzer, 'provider' | 'model'>,
+  usage: AnalysisUsage | undefined,
+  context: { searchQueryId?: string | null; listingId?: string | null }
+): Promise<void> {
+  if (!usage) return;
+
+  const cost = estimateCostUsd(analyzer, usage);
+  try {
+    await storage.createAiUsage({
+      provider: analyzer.provider,
+      model: analyzer.model,
+      searchQueryId: context.searchQueryId ?? null,
+      listingId: context.listingId ?? null,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      estimatedCostUsd: cost.toFixed(6),
+    });
+    console.log(`💸 AI usage: ${usage.totalTokens} tokens (~$${cost.toFixed(4)}) on ${analyzer.model}`);
+  } catch (error: any) {
+    console.error("❌ Failed to record AI usage:", error.message);
+  }
+}
+
+/**
+ * Whether the daily or monthly AI budget is used up, and until when
+ * automated scanning stays paused.
+ */
+export async function getBudgetStatus(): Promise<AiUsageSummary['budget']> {
+  const now = new Date();
+  let pausedUntil: Date | null = null;
+
+  if (MONTHLY_BUDGET_USD !== null) {
+    const month = await storage.getAiSpendSince(startOfMonth(now));
+    if (month.costUsd >= MONTHLY_BUDGET_USD) {
+      pausedUntil = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    }
+  }
+
+  if (!pausedUntil && DAILY_BUDGET_USD !== null) {
+    const today = await storage.getAiSpendSince(startOfDay(now));
+    if (today.costUsd >= DAILY_BUDGET_USD) {
+      pausedUntil = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    }
+  }
+
+  return {
+    dailyLimitUsd: DAILY_BUDGET_USD,
+    monthlyLimitUsd: MONTHLY_BUDGET_USD,
+    exceeded: pausedUntil !== null,
+    pausedUntil: pausedUntil ? pausedUntil.toISOString() : null,
+  };
+}
+
+export async function getUsageSummary(days = 30): Promise<AiUsageSummary> {
+  const now = new Date();
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const [today, month, budget, spendBySearch, findingsBySearch, searches] = await Promise.all([
+    storage.getAiSpendSince(startOfDay(now)),
+    storage.getAiSpendSince(startOfMonth(now)),
+    getBudgetStatus(),
+    storage.getAiSpendBySearchSince(since),
+    storage.countFindingsBySearchSince(since),
+    storage.getSearchQueries(),
+  ]);
+
+  const perSearch = spendBySearch.map((spend) => {
+    const findingCount = findingsBySearch.find(f => f.searchQueryId === spend.searchQueryId)?.count ?? 0;
+    return {
+      searchQueryId: spend.searchQueryId,
+      searchLabel: searches.find(s => s.id === spend.searchQueryId)?.searchLabel ?? null,
+      calls: spend.calls,
+      costUsd: spend.costUsd,
+      findings: findingCount,
+      costPerFinding: findingCount > 0 ? spend.costUsd / findingCount : null,
+    };
+  }).sort((a, b) => b.costUsd - a.costUsd);
+
+  return { today, month, budget, perSearch };
+}
@@ -0,0 +1,60 @@
+import {
+  analyzerProviderEnum,
+  type AnalyzerProvider,
+  type AntiqueDealerAnalysisResult,
+  type DetectedHallmark,
+  type ListingDetails,
+} from "@shared/schema";
+import { createOpenAIAnalyzer } from "./openai-analyzer";
+import { createOllamaAnalyzer } from "./ollama-analyzer";
+import { createMockAnalyzer } from "./mock-analyzer";
+
+export type { AntiqueDealerAnalysisResult, AnalysisUsage } from "@shared/schema";
+
+export interface AnalyzerInput {
+  imageUrls: string[];
+  title: string;
+  description?: string;
+  listingUrl?: string;
+  details?: ListingDetails;
+  detectedHallmarks?: DetectedHallmark[]; // Stamps the OCR pass read from the photos
+}
+
+/**
+ * A backend that turns a listing into an antique dealer analysis.
+ * Implementations never throw: failures come back as a zero-confidence
+ * result with `error` set.
+ */
+export interface Analyzer {
+  readonly provider: AnalyzerProvider;
+  readonly model: string;
+  analyze(input: AnalyzerInput): Promise<AntiqueDealerAnalysisResult>;
+}
+
+const DEFAULT_PROVIDER = analyzerProviderEnum.catch('openai').parse(process.env.ANALYZER_PROVIDER);
+
+const factories: Record<AnalyzerProvider, () => Analyzer> = {
+  openai: createOpenAIAnalyzer,
+  ollama: createOllamaAnalyzer,
+  mock: createMockAnalyzer,
+};
+
+const analyzers = new Map<AnalyzerProvider, Analyzer>();
+
+/**
+ * Get the analyzer for a provider (e.g. a search query's override),
+ * falling back to the ANALYZER_PROVIDER environment default.
+ */
+export function getAnalyzer(provider?: string | null): Analyzer {
+  const resolved = analyzerProviderEnum.safeParse(provider).success
+    ? provider as AnalyzerProvider
+    : DEFAULT_PROVIDER;
+
+  let analyzer = analyzers.get(resolved);
+  if (!analyzer) {
+    analyzer = factories[resolved]();
+    analyzers.set(resolved, analyzer);
+    console.log(`🧠 Analyzer ready: ${analyzer.provider} (${analyzer.model})`);
+  }
+  return analyzer;
+}
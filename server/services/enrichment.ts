@@ -0,0 +1,78 @@
+import { getMarketplace, type MarketplaceListing } from "./marketplace";
+import { savePageSnapshot } from "./page-snapshots";
+import { enrichmentModeEnum, type EnrichmentMode, type EnrichmentResult, type SearchQuery } from "@shared/schema";
+
+// Default for searches without their own enrichment mode
+const DEFAULT_MODE = enrichmentModeEnum.catch('thin').parse(process.env.ENRICHMENT_MODE);
+// In 'thin' mode, search results with fewer photos than this (or no description) get their item page fetched
+const THIN_MIN_PHOTOS = parseInt(process.env.ENRICHMENT_MIN_PHOTOS || '3');
+
+export function resolveEnrichmentMode(mode?: string | null): EnrichmentMode {
+  return enrichmentModeEnum.safeParse(mode).success ? mode as EnrichmentMode : DEFAULT_MODE;
+}
+
+// Search result cards usually carry a single photo and no description
+export function isThinListing(listing: MarketplaceListing): boolean {
+  return !listing.description?.trim() || listing.imageUrls.length < THIN_MIN_PHOTOS;
+}
+
+// Whether enrichListing would fetch the item page for this listing
+export function willFetchItemPage(listing: MarketplaceListing, mode: EnrichmentMode): boolean {
+  return mode === 'always' || (mode === 'thin' && isThinListing(listing));
+}
+
+/**
+ * Complete a search result with its item page: the full description and
+ * photo set, plus any details the card didn't show. Identity and price stay
+ * as scraped from the search so deduplication and price history agree.
+ */
+export function mergeListing(fromSearch: MarketplaceListing, fromPage: MarketplaceListing): MarketplaceListing {
+  return {
+    ...fromSearch,
+    description: fromPage.description?.trim() ? fromPage.description : fromSearch.description,
+    imageUrls: fromPage.imageUrls.length >= fromSearch.imageUrls.length ? fromPage.imageUrls : fromSearch.imageUrls,
+    details: fromSearch.details || fromPage.details ? { ...fromSearch.details, ...fromPage.details } : undefined,
+  };
+}
+
+/**
+ * Fetch the item page for a search result when the search's enrichment mode
+ * asks for it. Never throws: a failed fetch falls back to the search data,
+ * marked 'failed'.
+ */
+export async function enrichListing(
+  listing: MarketplaceListing,
+  searchQuery: SearchQuery,
+  scanRunId: string
+): Promise<{ listing: MarketplaceListing; enrichment: EnrichmentResult }> {
+  const mode = resolveEnrichmentMode(searchQuery.enrichmentMode);
+  if (!willFetchItemPage(listing, mode)) {
+    return { listing, enrichment: 'search_only' };
+  }
+
+  try {
+    const { listing: fromPage, strategy, pageHtml } = await getMarketplace(searchQuery.source).fetchListing(listing.listingUrl);
+    await savePageSnapshot({
+      kind: 'listing',
+      source: searchQuery.source,
+      url: listing.listingUrl,
+      searchQueryId: searchQuery.id,
+      scanRunId,
+      listingIds: [listing.listingId],
+      strategy,
+      html: pageHtml,
+    });
+
+    if (!fromPage) {
+      console.warn(`⚠️ Item page of ${listing.listingId} could not be parsed, analyzing search data`);
+      return { listing, enrichment: 'failed' };
+    }
+
+    const enriched = mergeListing(listing, fromPage);
+    console.log(`🧾 Enriched ${listing.listingId}: ${enriched.imageUrls.length} photos, ${enriched.description?.length ?? 0} chars of description`);
+    return { listing: enriched, enrichment: 'enriched' };
+  } catch (error: any) {
+    console.warn(`⚠️ Enrichment of ${listing.listingId} failed, analyzing search data: ${error.message}`);
+    return { listing, enrichment: 'failed' };
+  }
+}
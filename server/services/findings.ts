@@ -0,0 +1,110 @@
+import { storage } from "../storage";
+import { sendTelegramAlert } from "./telegram";
+import { currencyConverter } from "../utils/currency";
+import { parsePrice } from "@shared/price";
+import { detectMarketplaceSource } from "@shared/marketplaces";
+import type { AnalyzedListing, DetectedHallmark, Finding, ListingDetails, MeltEstimate } from "@shared/schema";
+import type { ListingTags } from "@shared/hallmark-lexicon";
+
+const FINDING_RETENTION_DAYS = 15;
+
+interface FindingSource {
+  source: string; // MarketplaceSource
+  listingId: string;
+  listingUrl: string;
+  listingTitle: string;
+  price: string;
+  priceAmount?: number | null; // Parsed from `price` when not given
+  priceCurrency?: string | null;
+  details?: ListingDetails | null;
+  tags?: ListingTags | null;
+  detectedHallmarks?: DetectedHallmark[] | null;
+  meltEstimate?: MeltEstimate | null;
+  confidenceScore: number;
+  mainMaterialGuess: string;
+  reasons: string[];
+  isValuable: boolean;
+  searchQueryId: string | null;
+}
+
+/**
+ * Create a finding from an analysis. Used by the scanner for listings above
+ * the threshold and by the review queue when a near miss is promoted.
+ */
+export async function createFindingFromAnalysis(source: FindingSource): Promise<Finding> {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + FINDING_RETENTION_DAYS);
+
+  const parsedPrice = source.priceAmount != null && source.priceCurrency
+    ? { amount: source.priceAmount, currency: source.priceCurrency }
+    : parsePrice(source.price);
+
+  return await storage.createFinding({
+    source: source.source,
+    listingId: source.listingId,
+    listingUrl: source.listingUrl,
+    listingTitle: source.listingTitle,
+    price: source.price,
+    ...currencyConverter.toPriceColumns(parsedPrice),
+    details: source.details ?? null,
+    tags: source.tags ?? null,
+    detectedHallmarks: source.detectedHallmarks ?? null,
+    meltEstimate: source.meltEstimate ?? null,
+    confidenceScore: source.confidenceScore,
+    aiReasoning: source.reasons.join('; '),
+    detectedMaterials: [source.mainMaterialGuess],
+    reasons: source.reasons,
+    isValuable: source.isValuable,
+    lotType: 'mixed', // Antique dealer approach - all lots mixed
+    searchQueryId: source.searchQueryId,
+    telegramSent: false,
+    expiresAt,
+  });
+}
+
+/**
+ * Promote a near miss from the review queue to a finding. A human decided it
+ * is worth a look, so the optional Telegram alert bypasses the confidence threshold.
+ */
+export async function promoteNearMiss(
+  listing: AnalyzedListing,
+  sendAlert: boolean
+): Promise<{ finding: Finding; alertSent: boolean }> {
+  const source: FindingSource = {
+    source: detectMarketplaceSource(listing.listingUrl ?? '') ?? 'vinted',
+    listingId: listing.listingId,
+    listingUrl: listing.listingUrl ?? '',
+    listingTitle: listing.listingTitle ?? listing.listingId,
+    price: listing.price ?? '',
+    details: listing.details,
+    tags: listing.tags,
+    detectedHallmarks: listing.detectedHallmarks,
+    meltEstimate: listing.meltEstimate,
+    confidenceScore: listing.confidenceScore,
+    mainMaterialGuess: listing.mainMaterialGuess ?? 'unknown',
+    reasons: listing.reasons ?? [],
+    isValuable: true,
+    searchQueryId: listing.searchQueryId,
+  };
+
+  const finding = await createFindingFromAnalysis(source);
+  await storage.setReviewStatus(listing.id, 'promoted');
+
+  let alertSent = false;
+  if (sendAlert) {
+    alertSent = await sendTelegramAlert(
+      source.listingTitle,
+      source.listingUrl,
+      source.price,
+      source.confidenceScore,
+      source.mainMaterialGuess,
+      source.reasons,
+      true,
+      0
+    );
+    if (alertSent) await storage.markTelegramSent(finding.id);
+  }
+
+  console.log(`⬆️ Near miss promoted to finding: ${source.listingTitle} (${source.confidenceScore}%)`);
+  return { finding, alertSent };
+}
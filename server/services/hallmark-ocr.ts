@@ -0,0 +1,133 @@
+import type { Worker } from "tesseract.js";
+import { tagListingText } from "@shared/hallmark-lexicon";
+import type { DetectedHallmark } from "@shared/schema";
+
+// Opt-in: local OCR of listing photos for hallmark stamps (tesseract.js + sharp, both optional dependencies)
+const OCR_ENABLED = process.env.HALLMARK_OCR === 'true';
+// More than the analyzer sends, so a stamp on a later photo still reaches the prompt
+const OCR_MAX_PHOTOS = parseInt(process.env.HALLMARK_OCR_MAX_PHOTOS || '8');
+const OCR_MIN_CONFIDENCE = parseInt(process.env.HALLMARK_OCR_MIN_CONFIDENCE || '60');
+// Directory or URL holding eng.traineddata; tesseract.js downloads it when unset
+const OCR_LANG_PATH = process.env.HALLMARK_OCR_LANG_PATH;
+
+const IMAGE_TIMEOUT_MS = 15000;
+// Stamps are a few millimetres wide; photos are upscaled to this width before OCR
+const UPSCALE_WIDTH = 2000;
+// Digits plus the letters stamps use: "925", "18K", "S925", "AU750", "PT950"
+const CHAR_WHITELIST = '0123456789AaCcDdGgKkPpRrSsTtUu';
+
+let workerPromise: Promise<Worker> | null = null;
+let unavailableReason: string | null = null;
+
+function getWorker(): Promise<Worker> {
+  workerPromise ??= new Promise<Worker>((resolve, reject) => {
+    (async () => {
+      const { createWorker, PSM } = await import("tesseract.js");
+      // createWorker never settles when the language data fails to load, it only reports
+      // to errorHandler (and throws out of band without one). Later job errors also
+      // reject their own promise, so rejecting here again is a no-op.
+      const worker = await createWorker('eng', undefined, {
+        ...(OCR_LANG_PATH ? { langPath: OCR_LANG_PATH } : {}),
+        errorHandler: reject,
+      });
+      await worker.setParameters({
+        tessedit_char_whitelist: CHAR_WHITELIST,
+        tessedit_pageseg_mode: PSM.SPARSE_TEXT, // Stamps are scattered fragments, not lines of text
+      });
+      console.log('🔍 Hallmark OCR ready');
+      resolve(worker);
+    })().catch(reject);
+  });
+  return workerPromise;
+}
+
+/**
+ * Greyscale, contrast-stretched and upscaled versions of a photo: the whole
+ * frame, and its centre where a ring's inner band or a clasp usually sits.
+ */
+async function preparePhoto(image: Buffer): Promise<Buffer[]> {
+  const { default: sharp } = await import("sharp");
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  const enhance = (input: ReturnType<typeof sharp>) =>
+    input.greyscale().resize({ width: UPSCALE_WIDTH }).normalize().sharpen().png().toBuffer();
+
+  const variants = [enhance(sharp(image))];
+  if (width >= 8 && height >= 8) {
+    variants.push(enhance(sharp(image).extract({
+      left: Math.floor(width / 4),
+      top: Math.floor(height / 4),
+      width: Math.floor(width / 2),
+      height: Math.floor(height / 2),
+    })));
+  }
+  return Promise.all(variants);
+}
+
+async function downloadPhoto(url: string): Promise<Buffer> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Image download failed (${response.status}): ${url}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// Marks in one OCR pass, read line by line from the words OCR is confident about
+async function readPhoto(worker: Worker, image: Buffer, photo: number): Promise<DetectedHallmark[]> {
+  const { data } = await worker.recognize(image, {}, { blocks: true });
+  const detected: DetectedHallmark[] = [];
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const words = line.words.filter(word => word.confidence >= OCR_MIN_CONFIDENCE);
+        if (words.length === 0) continue;
+        const confidence = Math.round(Math.min(...words.map(word => word.confidence)));
+        for (const hallmark of tagListingText(words.map(word => word.text).join(' ')).hallmarks) {
+          detected.push({ ...hallmark, photo, confidence });
+        }
+      }
+    }
+  }
+  return detected;
+}
+
+/**
+ * Read hallmark stamps from a listing's photos; null when OCR is off. Never
+ * throws: the marks are a hint for the analyzer, so an unreadable photo or a
+ * missing OCR setup just means no hint. A mark seen in several photos is
+ * kept once, at its most confident reading.
+ */
+export async function detectHallmarksInPhotos(imageUrls: string[]): Promise<DetectedHallmark[] | null> {
+  if (!OCR_ENABLED) return null;
+  if (unavailableReason) return [];
+
+  let worker: Worker;
+  try {
+    worker = await getWorker();
+  } catch (error) {
+    unavailableReason = error instanceof Error ? error.message : String(error); // tesseract.js rejects with strings
+    console.error(`⚠️ Hallmark OCR unavailable, skipping it until restart: ${unavailableReason}`);
+    return [];
+  }
+
+  const found = new Map<string, DetectedHallmark>();
+  const photos = imageUrls.slice(0, OCR_MAX_PHOTOS);
+  for (const [index, url] of photos.entries()) {
+    try {
+      for (const variant of await preparePhoto(await downloadPhoto(url))) {
+        for (const hallmark of await readPhoto(worker, variant, index + 1)) {
+          const key = `${hallmark.metal}-${hallmark.fineness}`;
+          const existing = found.get(key);
+          if (!existing || hallmark.confidence > existing.confidence) found.set(key, hallmark);
+        }
+      }
+    } catch (error: any) {
+      console.error(`Hallmark OCR failed for photo ${index + 1}:`, error.message);
+    }
+  }
+
+  const hallmarks = Array.from(found.values());
+  if (hallmarks.length > 0) {
+    console.log(`🔍 OCR read ${hallmarks.map(hallmark => `${hallmark.mark} (photo ${hallmark.photo})`).join(', ')}`);
+  }
+  return hallmarks;
+}
@@ -0,0 +1,90 @@
+import { storage } from "../storage";
+import type { Job, JobType } from "@shared/schema";
+
+const BACKOFF_BASE_MS = parseInt(process.env.JOB_BACKOFF_BASE_MS || '30000'); // 30 seconds
+const BACKOFF_MAX_MS = parseInt(process.env.JOB_BACKOFF_MAX_MS || String(60 * 60 * 1000)); // 1 hour
+const RATE_LIMIT_BACKOFF_MS = 30 * 60 * 1000; // 30 minutes after a 429
+
+/**
+ * Thrown by a job handler to postpone a job (e.g. AI budget exhausted)
+ * without counting it as a failed attempt.
+ */
+export class JobDeferredError extends Error {
+  constructor(message: string, public readonly until: Date) {
+    super(message);
+    this.name = 'JobDeferredError';
+  }
+}
+
+interface EnqueueOptions {
+  type: JobType;
+  payload: Record<string, unknown>;
+  dedupeKey?: string;
+  searchQueryId?: string;
+  scanRunId?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Add a job to the queue. When a dedupe key is given and a pending or
+ * running job with the same key exists, nothing is enqueued and null is
+ * returned. The check is the insert itself (a unique index on open jobs'
+ * dedupe keys), so concurrent enqueuers can't both get through.
+ */
+export async function enqueueJob(options: EnqueueOptions): Promise<Job | null> {
+  const job = await storage.createJob({
+    type: options.type,
+    payload: options.payload,
+    dedupeKey: options.dedupeKey ?? null,
+    searchQueryId: options.searchQueryId ?? null,
+    scanRunId: options.scanRunId ?? null,
+    maxAttempts: options.maxAttempts,
+    runAt: options.runAt,
+  });
+  if (!job) {
+    console.log(`⏭️ Job ${options.dedupeKey} already queued, skipping`);
+    return null;
+  }
+  return job;
+}
+
+function isRateLimitError(message: string): boolean {
+  return message.includes('429') || message.includes('Too Many Requests');
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^(attempt - 1), capped.
+ * Rate-limit errors always wait at least 30 minutes.
+ */
+export function getRetryDelayMs(attempts: number, errorMessage: string): number {
+  const exponential = Math.min(BACKOFF_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0)), BACKOFF_MAX_MS);
+  const jitter = Math.random() * BACKOFF_BASE_MS;
+  const delay = exponential + jitter;
+  return isRateLimitError(errorMessage) ? Math.max(delay, RATE_LIMIT_BACKOFF_MS) : delay;
+}
+
+/**
+ * Record a failed attempt: schedule a retry, or move the job to the
+ * dead-letter state once it has used up its attempts. Nothing is recorded
+ * when the worker lost the job's lease meanwhile.
+ * Returns true when the job was dead-lettered.
+ */
+export async function failJob(job: Job, workerId: string, error: Error): Promise<boolean> {
+  if (job.attempts >= job.maxAttempts) {
+    if (!await storage.deadLetterJob(job.id, workerId, error.message)) {
+      console.warn(`⚠️ Lost lease on job ${job.type}:${job.id}, dropping its failure: ${error.message}`);
+      return false;
+    }
+    console.error(`☠️ Job ${job.type}:${job.id} dead-lettered after ${job.attempts} attempts: ${error.message}`);
+    return true;
+  }
+
+  const delayMs = getRetryDelayMs(job.attempts, error.message);
+  if (!await storage.retryJob(job.id, workerId, new Date(Date.now() + delayMs), error.message)) {
+    console.warn(`⚠️ Lost lease on job ${job.type}:${job.id}, dropping its failure: ${error.message}`);
+    return false;
+  }
+  console.warn(`🔄 Job ${job.type}:${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delayMs / 1000)}s: ${error.message}`);
+  return false;
+}
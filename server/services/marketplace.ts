@@ -0,0 +1,101 @@
+import { marketplaceSourceEnum, type MarketplaceSource, type ListingDetails } from "@shared/schema";
+import { createVintedMarketplace } from "./vinted-marketplace";
+import { createMarktplaatsMarketplace } from "./marktplaats-marketplace";
+import type { SearchOptions } from "./search-pagination";
+
+export type { SearchOptions };
+
+/**
+ * A listing as scraped from any marketplace. `listingId` is the adapter's
+ * canonical id and must be unique across sources (it deduplicates analyses).
+ */
+export interface MarketplaceListing {
+  listingId: string;
+  title: string;
+  price: string; // As displayed
+  priceAmount: number | null;
+  priceCurrency: string | null; // ISO 4217
+  imageUrls: string[];
+  listingUrl: string;
+  description?: string;
+  details?: ListingDetails;
+}
+
+/**
+ * Result of scraping a search page. `strategy` names the parser path that
+ * found the listings ('dom' is always the last-resort fallback) and is null
+ * when nothing matched; `pageHtml` is the scraped page, kept for drift alerts.
+ * Both describe the first result page when several were read, whose
+ * listings are the first `firstPageListingCount` of `listings`.
+ */
+export interface MarketplaceSearchResult {
+  listings: MarketplaceListing[];
+  strategy: string | null;
+  pageHtml: string;
+  pagesScanned: number;
+  firstPageListingCount: number;
+}
+
+/** Result of scraping a single listing page; `listing` is null when it couldn't be parsed */
+export interface MarketplaceListingResult {
+  listing: MarketplaceListing | null;
+  strategy: string | null;
+  pageHtml: string;
+}
+
+/**
+ * A classifieds site the scanner can search. Adapters throw on scrape
+ * failures so the job queue can retry them.
+ */
+export interface MarketplaceAdapter {
+  readonly source: MarketplaceSource;
+  /** Whether a search or listing URL belongs to this marketplace */
+  matchesUrl(url: string): boolean;
+  /** Canonical listing id for a listing URL, or null if it isn't a listing URL */
+  canonicalId(listingUrl: string): string | null;
+  /** Reads result pages up to `options.maxPages`, following the site's pagination */
+  search(searchUrl: string, options?: SearchOptions): Promise<MarketplaceSearchResult>;
+  fetchListing(listingUrl: string): Promise<MarketplaceListingResult>;
+  /** Extraction only, without network access (e.g. replaying a stored page snapshot) */
+  parseSearchPage(html: string, searchUrl: string): Pick<MarketplaceSearchResult, 'listings' | 'strategy'>;
+  parseListingPage(html: string, listingUrl: string): Omit<MarketplaceListingResult, 'pageHtml'>;
+}
+
+const factories: Record<MarketplaceSource, () => MarketplaceAdapter> = {
+  vinted: createVintedMarketplace,
+  marktplaats: createMarktplaatsMarketplace,
+};
+
+const adapters = new Map<MarketplaceSource, MarketplaceAdapter>();
+
+export function getMarketplace(source?: string | null): MarketplaceAdapter {
+  const resolved = marketplaceSourceEnum.catch('vinted').parse(source);
+
+  let adapter = adapters.get(resolved);
+  if (!adapter) {
+    adapter = factories[resolved]();
+    adapters.set(resolved, adapter);
+  }
+  return adapter;
+}
+
+/**
+ * The listing keyed by its adapter's canonical id, so the same item reached
+ * through another country domain or parser path deduplicates as one listing.
+ */
+export function withCanonicalId(adapter: MarketplaceAdapter, listing: MarketplaceListing): MarketplaceListing {
+  const listingId = adapter.canonicalId(listing.listingUrl);
+  return listingId && listingId !== listing.listingId ? { ...listing, listingId } : listing;
+}
+
+/**
+ * Find the adapter for a URL (e.g. a pasted listing link), or null when no
+ * supported marketplace matches.
+ */
+export function getMarketplaceForUrl(url: string): MarketplaceAdapter | null {
+  for (const source of marketplaceSourceEnum.options) {
+    const adapter = getMarketplace(source);
+    if (adapter.matchesUrl(url)) return adapter;
+  }
+  return null;
+}
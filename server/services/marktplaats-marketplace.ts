@@ -0,0 +1,193 @@
+import { load } from "cheerio";
+import { parsePrice } from "@shared/price";
+import { isMarktplaatsUrl } from "@shared/marketplaces";
+import { compactDetails, detailsFromJsonLd, toIsoTimestamp } from "@shared/listing-details";
+import { collectSearchPages } from "./search-pagination";
+import type { MarketplaceAdapter, MarketplaceListing } from "./marketplace";
+
+export type MarktplaatsSearchStrategy = 'next_data' | 'dom';
+export type MarktplaatsListingStrategy = 'json_ld' | 'og';
+
+// Marktplaats serves server-rendered HTML, so plain HTTP requests are enough (no browser)
+const ORIGIN = 'https://www.marktplaats.nl';
+const USER_AGENT = process.env.MARKTPLAATS_USER_AGENT ||
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Marktplaats item ids ("m2093712345") get a source prefix to stay unique next to Vinted ids
+function toListingId(itemId: string): string {
+  return `marktplaats:${itemId}`;
+}
+
+function absoluteUrl(href: string): string {
+  return href.startsWith('http') ? href : `${ORIGIN}${href}`;
+}
+
+function formatCents(cents: number): string {
+  return `€ ${(cents / 100).toFixed(2).replace('.', ',')}`;
+}
+
+function withParsedPrice(listing: Omit<MarketplaceListing, 'priceAmount' | 'priceCurrency'>): MarketplaceListing {
+  const parsed = parsePrice(listing.price);
+  return { ...listing, priceAmount: parsed?.amount ?? null, priceCurrency: parsed?.currency ?? null };
+}
+
+/**
+ * Extract listings from a search results page: the embedded __NEXT_DATA__
+ * JSON first, the rendered result list as a fallback. `strategy` is null
+ * when nothing could be extracted.
+ */
+export function parseMarktplaatsSearch(html: string): { listings: MarketplaceListing[]; strategy: MarktplaatsSearchStrategy | null } {
+  const $ = load(html);
+
+  const nextData = $('script#__NEXT_DATA__').text();
+  if (nextData) {
+    try {
+      const listings: any[] = JSON.parse(nextData)?.props?.pageProps?.searchRequestAndResponse?.listings ?? [];
+      const results = listings
+        .filter(item => item.itemId && item.title)
+        .map(item => withParsedPrice({
+          listingId: toListingId(item.itemId),
+          title: item.title.trim(),
+          price: item.priceInfo?.priceCents > 0 ? formatCents(item.priceInfo.priceCents) : 'Bieden',
+          imageUrls: (item.pictures ?? []).map((p: any) => p.largeUrl || p.mediumUrl || p.extraSmallUrl).filter(Boolean),
+          listingUrl: absoluteUrl(item.vipUrl || `/v/${item.itemId}`),
+          description: item.description || '',
+          details: compactDetails({
+            condition: (item.attributes ?? []).find((attribute: any) => attribute.key === 'condition')?.value,
+            sellerId: item.sellerInformation?.sellerId?.toString(),
+            sellerName: item.sellerInformation?.sellerName,
+            uploadedAt: toIsoTimestamp(item.date),
+          }),
+        }));
+      if (results.length > 0) return { listings: results, strategy: 'next_data' };
+    } catch (error: any) {
+      console.warn('⚠️ Marktplaats __NEXT_DATA__ parsing failed:', error.message);
+    }
+  }
+
+  const results: MarketplaceListing[] = [];
+  $('li.hz-Listing').each((_, element) => {
+    const item = $(element);
+    const href = item.find('a.hz-Listing-coverLink').attr('href');
+    const itemId = href?.match(/\/(m\d+)/)?.[1];
+    const title = item.find('.hz-Listing-title').text().trim();
+    if (!href || !itemId || !title) return;
+
+    results.push(withParsedPrice({
+      listingId: toListingId(itemId),
+      title,
+      price: item.find('.hz-Listing-price').text().trim() || 'Bieden',
+      imageUrls: item.find('img').map((_, img) => $(img).attr('src')).get().filter(Boolean),
+      listingUrl: absoluteUrl(href),
+      description: item.find('.hz-Listing-description').text().trim(),
+    }));
+  });
+  return { listings: results, strategy: results.length > 0 ? 'dom' : null };
+}
+
+/**
+ * Extract a single listing from an item page (JSON-LD product data, with
+ * Open Graph tags as a fallback). The listing is null when neither is present.
+ */
+export function parseMarktplaatsListing(html: string, listingUrl: string): { listing: MarketplaceListing | null; strategy: MarktplaatsListingStrategy | null } {
+  const $ = load(html);
+  const itemId = listingUrl.match(/\/(m\d+)/)?.[1];
+  if (!itemId) return { listing: null, strategy: null };
+
+  for (const script of $('script[type="application/ld+json"]').toArray()) {
+    try {
+      const data = JSON.parse($(script).text());
+      if (data['@type'] === 'Product' && data.name) {
+        const amount = data.offers?.price ? parseFloat(data.offers.price) : 0;
+        const listing = withParsedPrice({
+          listingId: toListingId(itemId),
+          title: data.name.trim(),
+          price: amount > 0 ? `${amount.toFixed(2)} ${data.offers.priceCurrency || 'EUR'}` : 'Bieden',
+          imageUrls: data.image ? (Array.isArray(data.image) ? data.image : [data.image]) : [],
+          listingUrl,
+          description: data.description || '',
+          details: detailsFromJsonLd(data),
+        });
+        return { listing, strategy: 'json_ld' };
+      }
+    } catch (error: any) {
+      console.warn('⚠️ Marktplaats JSON-LD parsing failed:', error.message);
+    }
+  }
+
+  const title = $('meta[property="og:title"]').attr('content');
+  if (!title) return { listing: null, strategy: null };
+  const ogPrice = $('meta[property="product:price:amount"]').attr('content');
+  const ogImage = $('meta[property="og:image"]').attr('content');
+  const listing = withParsedPrice({
+    listingId: toListingId(itemId),
+    title: title.trim(),
+    price: ogPrice ? `${ogPrice} EUR` : 'Bieden',
+    imageUrls: ogImage ? [ogImage] : [],
+    listingUrl,
+    description: $('meta[name="description"]').attr('content') || '',
+  });
+  return { listing, strategy: 'og' };
+}
+
+async function fetchHtml(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml',
+      'Accept-Language': 'nl-NL,nl;q=0.9,en;q=0.8',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Marktplaats responded ${response.status} for ${url}`);
+  }
+  return await response.text();
+}
+
+// Result page URL; Marktplaats paginates with a "/p/<n>/" path segment ("/q/zilver/p/2/")
+export function marktplaatsSearchPageUrl(searchUrl: string, page: number): string {
+  const url = new URL(searchUrl);
+  const basePath = url.pathname.replace(/\/p\/\d+\/?$/, '').replace(/\/?$/, '/');
+  url.pathname = page > 1 ? `${basePath}p/${page}/` : basePath;
+  return url.toString();
+}
+
+export function createMarktplaatsMarketplace(): MarketplaceAdapter {
+  return {
+    source: 'marktplaats',
+
+    matchesUrl(url) {
+      return isMarktplaatsUrl(url);
+    },
+
+    canonicalId(listingUrl) {
+      const itemId = listingUrl.match(/\/(m\d+)/)?.[1];
+      return itemId ? toListingId(itemId) : null;
+    },
+
+    search(searchUrl, options = {}) {
+      return collectSearchPages(options, async (page) => {
+        const pageUrl = marktplaatsSearchPageUrl(searchUrl, page);
+        console.log(`🔍 Scraping Marktplaats search: ${pageUrl}`);
+        const pageHtml = await fetchHtml(pageUrl);
+        const { listings, strategy } = parseMarktplaatsSearch(pageHtml);
+        console.log(`✅ Found ${listings.length} listings from Marktplaats search${strategy ? ` (${strategy})` : ''}`);
+        return { listings, strategy, pageHtml };
+      });
+    },
+
+    async fetchListing(listingUrl) {
+      console.log(`🔍 Scraping single Marktplaats listing: ${listingUrl}`);
+      const pageHtml = await fetchHtml(listingUrl);
+      return { ...parseMarktplaatsListing(pageHtml, listingUrl), pageHtml };
+    },
+
+    parseSearchPage(html) {
+      return parseMarktplaatsSearch(html);
+    },
+
+    parseListingPage(html, listingUrl) {
+      return parseMarktplaatsListing(html, listingUrl);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import { readFile } from "fs/promises";
+import { storage } from "../storage";
+import type { ListingTags, Metal } from "@shared/hallmark-lexicon";
+import {
+  metalEnum,
+  type DetectedHallmark,
+  type MeltEstimate,
+  type MetalPrice,
+  type SearchQuery,
+} from "@shared/schema";
+
+// Optional spot price CSV (metal,price_per_gram) imported at startup, e.g. refreshed by a local cron job
+const METAL_PRICES_CSV = process.env.METAL_PRICES_CSV;
+
+// Plausible jewelry weights; anything outside is a misread (a price, a size) rather than grams
+const MIN_WEIGHT_GRAMS = 0.1;
+const MAX_WEIGHT_GRAMS = 1000;
+
+// "3,2 gram", "4g", "12.5 gr", "5 Gramm", "2 grammes"; not "mg", and "ct" is stone weight
+const WEIGHT_PATTERN = /(?<![\d.,])(\d{1,4}(?:[.,]\d{1,2})?)\s?(?:g|gr|grs|gram|grams|gramm|gramme|grammes|grammi|grammen)(?![a-z])/gi;
+
+// Spot feed symbols accepted in the CSV besides the metal names
+const METAL_SYMBOLS: Record<string, Metal> = { xau: 'gold', xag: 'silver', xpt: 'platinum', xpd: 'palladium' };
+
+/** The first weight in grams a listing text states, or null */
+export function extractWeightGrams(text: string): number | null {
+  for (const match of text.matchAll(WEIGHT_PATTERN)) {
+    const grams = parseFloat(match[1].replace(',', '.'));
+    if (grams >= MIN_WEIGHT_GRAMS && grams <= MAX_WEIGHT_GRAMS) return grams;
+  }
+  return null;
+}
+
+/**
+ * Melt value of a listing from its stated weight, its hallmark and the spot
+ * prices. The seller's own mark comes first, then the most confident OCR
+ * reading. Listings mentioning plating get no estimate: a "14k gold filled"
+ * mark describes only the coating.
+ */
+export function estimateMeltValue(
+  text: string,
+  tags: ListingTags,
+  detectedHallmarks: DetectedHallmark[] | null,
+  prices: Map<Metal, number>
+): MeltEstimate | null {
+  if (tags.plated.length > 0) return null;
+
+  const weightGrams = extractWeightGrams(text);
+  if (weightGrams === null) return null;
+
+  const readings = [...(detectedHallmarks ?? [])].sort((a, b) => b.confidence - a.confidence);
+  const hallmark = [...tags.hallmarks, ...readings].find(mark => prices.has(mark.metal));
+  if (!hallmark) return null;
+
+  const pricePerGram = prices.get(hallmark.metal)!;
+  return {
+    weightGrams,
+    metal: hallmark.metal,
+    fineness: hallmark.fineness,
+    mark: hallmark.mark,
+    pricePerGram,
+    value: Math.round(weightGrams * (hallmark.fineness / 1000) * pricePerGram * 100) / 100,
+  };
+}
+
+export async function getSpotPrices(): Promise<Map<Metal, number>> {
+  const rows = await storage.getMetalPrices();
+  return new Map(rows.map(row => [row.metal as Metal, parseFloat(row.pricePerGram)]));
+}
+
+/**
+ * Whether a listing passes its search's melt value criterion: null when the
+ * search has none or the listing has no melt estimate or base price, in
+ * which case the AI confidence threshold decides alone.
+ */
+export function meetsMeltCriterion(
+  searchQuery: SearchQuery,
+  estimate: MeltEstimate | null,
+  priceBase: number | null
+): boolean | null {
+  if (searchQuery.minMeltValuePercent === null || !estimate || priceBase === null) return null;
+  return estimate.value >= priceBase * (searchQuery.minMeltValuePercent / 100);
+}
+
+/**
+ * Parse spot prices from CSV: one "metal,price_per_gram" row per metal, in
+ * the base currency. Metals may be named (gold) or given as spot symbols
+ * (XAU). A header row, blank lines and "#" comments are skipped; with ";" or
+ * tab as separator the price may use a decimal comma. Throws on the first
+ * bad row, naming its line.
+ */
+export function parseMetalPricesCsv(csv: string): { metal: Metal; pricePerGram: string }[] {
+  const rows: { metal: Metal; pricePerGram: string }[] = [];
+  csv.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [name = '', price = ''] = /[;\t]/.test(line)
+      ? line.split(/[;\t]/).map(cell => cell.trim().replace(',', '.'))
+      : line.split(',').map(cell => cell.trim());
+    const key = name.replace(/^"|"$/g, '').toLowerCase();
+    if (key === 'metal') return; // Header
+
+    const metal = metalEnum.safeParse(METAL_SYMBOLS[key] ?? key);
+    if (!metal.success) {
+      throw new Error(`Line ${index + 1}: unknown metal "${name}"`);
+    }
+    const pricePerGram = parseFloat(price);
+    if (!/^\d+(\.\d+)?$/.test(price) || pricePerGram <= 0) {
+      throw new Error(`Line ${index + 1}: invalid price per gram "${price}"`);
+    }
+    rows.push({ metal: metal.data, pricePerGram: pricePerGram.toFixed(4) });
+  });
+  return rows;
+}
+
+export async function importMetalPricesCsv(csv: string): Promise<MetalPrice[]> {
+  const rows = parseMetalPricesCsv(csv);
+  const saved: MetalPrice[] = [];
+  for (const row of rows) {
+    saved.push(await storage.upsertMetalPrice({ ...row, source: 'csv' }));
+  }
+  console.log(`💰 Imported spot prices: ${rows.map(row => `${row.metal} ${row.pricePerGram}/g`).join(', ')}`);
+  return saved;
+}
+
+// Startup import of METAL_PRICES_CSV; never throws, the prices in the database stay as they were
+export async function loadMetalPricesFile(): Promise<void> {
+  if (!METAL_PRICES_CSV) return;
+  try {
+    await importMetalPricesCsv(await readFile(METAL_PRICES_CSV, 'utf-8'));
+  } catch (error: any) {
+    console.error(`⚠️ Could not load spot prices from ${METAL_PRICES_CSV}:`, error.message);
+  }
+}
@@ -0,0 +1,22 @@
+import OpenAI from "openai";
+import { OpenAICompatibleAnalyzer } from "./openai-analyzer";
+
+// Ollama exposes an OpenAI-compatible API under /v1
+const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1';
+const OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'llava';
+
+/**
+ * Local vision model served by Ollama (or any OpenAI-compatible server).
+ * Images are downloaded and sent inline since the local server can't fetch URLs.
+ */
+export function createOllamaAnalyzer(): OpenAICompatibleAnalyzer {
+  return new OpenAICompatibleAnalyzer({
+    provider: 'ollama',
+    client: new OpenAI({
+      baseURL: OLLAMA_BASE_URL,
+      apiKey: process.env.OLLAMA_API_KEY || 'ollama', // Ollama ignores the key but the SDK requires one
+    }),
+    model: OLLAMA_MODEL,
+    inlineImages: true,
+  });
+}
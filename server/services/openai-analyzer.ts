@@ -1,5 +1,7 @@
 import OpenAI from "openai";
 import { z } from "zod";
+import type { Analyzer, AnalyzerInput, AntiqueDealerAnalysisResult } from "./analyzer";
+import { mainMaterialEnum, type AnalyzerProvider, type DetectedHallmark, type ListingDetails } from "@shared/schema";
 
 let openai: OpenAI | null = null;
 
@@ -19,24 +21,10 @@ const AntiqueDealerResponseSchema = z.object({
   listingUrl: z.string(),
   isValuableLikely: z.boolean(),
   confidence: z.number().min(0).max(100),
-  mainMaterialGuess: z.enum([
-    'gold', 'silver', 'pearls', 'diamonds', 'precious_gemstones',
-    'semi_precious_stones', 'religious_medals', 'signed_vintage',
-    'art_deco', 'art_nouveau', 'mixed', 'unknown'
-  ]),
+  mainMaterialGuess: mainMaterialEnum,
   reasons: z.array(z.string())
 });
 
-interface AntiqueDealerAnalysisResult {
-  listingUrl: string;
-  isValuableLikely: boolean;
-  confidence: number;
-  mainMaterialGuess: 'gold' | 'silver' | 'pearls' | 'diamonds' | 'precious_gemstones' |
-                    'semi_precious_stones' | 'religious_medals' | 'signed_vintage' |
-                    'art_deco' | 'art_nouveau' | 'mixed' | 'unknown';
-  reasons: string[];
-}
-
 const ENHANCED_ANTIQUe_DEALER_PROMPT = `You are a MASTER antique jewelry dealer and estate liquidator with 30+ years experience.
 
 Your mission: Detect HIDDEN VALUE in undervalued Vinted listings across ALL valuable materials and periods.
@@ -169,79 +157,135 @@ function parseAntiqueDealerResponse(content: string, listingUrl: string): Antiqu
     };
   } catch (error: any) {
     console.warn('AI response validation failed:', error.message);
-    return {
-      listingUrl,
-      isValuableLikely: false,
-      confidence: 0,
-      mainMaterialGuess: 'unknown',
-      reasons: ['Analysis failed: ' + error.message]
-    };
+    return failedAnalysis(listingUrl, 'Analysis failed: ' + error.message, error.message);
   }
 }
 
-export async function analyzeJewelryImages(
-  imageUrls: string[],
-  listingTitle: string,
-  listingDescription?: string,
-  listingUrl?: string
-): Promise<AntiqueDealerAnalysisResult> {
-  if (!openai) {
-    return {
-      listingUrl: listingUrl || '',
-      isValuableLikely: false,
-      confidence: 0,
-      mainMaterialGuess: 'unknown',
-      reasons: ["Image analysis is disabled because OPENAI_API_KEY is not configured."]
-    };
+function failedAnalysis(listingUrl: string | undefined, reason: string, error?: string): AntiqueDealerAnalysisResult {
+  return {
+    listingUrl: listingUrl || '',
+    isValuableLikely: false,
+    confidence: 0,
+    mainMaterialGuess: 'unknown',
+    reasons: [reason],
+    ...(error ? { error } : {}),
+  };
+}
+
+// Listing attributes that help judge the item (seller and popularity stats don't)
+function formatListingDetails(details: ListingDetails | undefined): string {
+  if (!details) return '';
+  const lines = [
+    details.brand && `Brand: "${details.brand}"`,
+    details.condition && `Condition: "${details.condition}"`,
+    details.size && `Size: "${details.size}"`,
+    details.category && `Category: "${details.category}"`,
+  ].filter(Boolean);
+  return lines.length > 0 ? `\n\n${lines.join('\n')}` : '';
+}
+
+function formatDetectedHallmarks(hallmarks: DetectedHallmark[] | undefined): string {
+  if (!hallmarks?.length) return '';
+  const marks = hallmarks.map(hallmark => `${hallmark.mark.toUpperCase()} (${hallmark.label}) in photo ${hallmark.photo}`);
+  return `\n\nStamps read from the photos by OCR (may be misread, verify in the photos): ${marks.join(', ')}`;
+}
+
+async function toDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Image download failed (${response.status}): ${url}`);
   }
+  const contentType = response.headers.get('content-type') || 'image/jpeg';
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return `data:${contentType};base64,${buffer.toString('base64')}`;
+}
 
-  console.log(`Analyzing ${imageUrls.length} images with OpenAI Vision`);
+export interface OpenAICompatibleAnalyzerOptions {
+  provider: AnalyzerProvider;
+  client: OpenAI | null;
+  model: string;
+  disabledReason?: string;
+  // Local servers (Ollama) can't fetch remote images, so send them inline as base64
+  inlineImages?: boolean;
+}
 
-  if (imageUrls.length === 0) {
-    return {
-      listingUrl: listingUrl || '',
-      isValuableLikely: false,
-      confidence: 0,
-      mainMaterialGuess: 'unknown',
-      reasons: ["No images available for analysis"]
-    };
+/**
+ * Vision analyzer for any backend speaking the OpenAI chat completions API.
+ */
+export class OpenAICompatibleAnalyzer implements Analyzer {
+  readonly provider: AnalyzerProvider;
+  readonly model: string;
+  private client: OpenAI | null;
+  private disabledReason: string;
+  private inlineImages: boolean;
+
+  constructor(options: OpenAICompatibleAnalyzerOptions) {
+    this.provider = options.provider;
+    this.model = options.model;
+    this.client = options.client;
+    this.disabledReason = options.disabledReason || `${options.provider} analyzer is not configured`;
+    this.inlineImages = options.inlineImages ?? false;
   }
 
-  try {
-    const messages: any[] = [
-      {
-        role: "user",
-        content: [
-          { type: "text", text: `${ENHANCED_ANTIQUe_DEALER_PROMPT}\n\nListing title: "${listingTitle}"\n\nDescription: "${listingDescription || ''}"` },
-          ...imageUrls.slice(0, 4).map(url => ({
-            type: "image_url",
-            image_url: { url, detail: "high" }
-          })),
-        ],
-      },
-    ];
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages,
-      max_tokens: 1000,
-      temperature: 0.3,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response from OpenAI");
+  async analyze({ imageUrls, title, description, listingUrl, details, detectedHallmarks }: AnalyzerInput): Promise<AntiqueDealerAnalysisResult> {
+    if (!this.client) {
+      return failedAnalysis(listingUrl, this.disabledReason, this.disabledReason);
     }
 
-    return parseAntiqueDealerResponse(content, listingUrl || '');
-  } catch (error: any) {
-    console.error("Error analyzing with OpenAI:", error.message);
-    return {
-      listingUrl: listingUrl || '',
-      isValuableLikely: false,
-      confidence: 0,
-      mainMaterialGuess: 'unknown',
-      reasons: [`Analysis failed: ${error.message}`]
-    };
+    console.log(`Analyzing ${imageUrls.length} images with ${this.provider} (${this.model})`);
+
+    if (imageUrls.length === 0) {
+      return failedAnalysis(listingUrl, "No images available for analysis");
+    }
+
+    try {
+      const images = imageUrls.slice(0, 4);
+      const urls = this.inlineImages ? await Promise.all(images.map(toDataUrl)) : images;
+
+      const messages: any[] = [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: `${ENHANCED_ANTIQUe_DEALER_PROMPT}\n\nListing title: "${title}"\n\nDescription: "${description || ''}"${formatListingDetails(details)}${formatDetectedHallmarks(detectedHallmarks)}` },
+            ...urls.map(url => ({
+              type: "image_url",
+              image_url: { url, detail: "high" }
+            })),
+          ],
+        },
+      ];
+
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages,
+        max_tokens: 1000,
+        temperature: 0.3,
+      });
+
+      const usage = response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      } : undefined;
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        return { ...failedAnalysis(listingUrl, `Analysis failed: No response from ${this.provider}`, `No response from ${this.provider}`), usage };
+      }
+
+      return { ...parseAntiqueDealerResponse(content, listingUrl || ''), usage };
+    } catch (error: any) {
+      console.error(`Error analyzing with ${this.provider}:`, error.message);
+      return failedAnalysis(listingUrl, `Analysis failed: ${error.message}`, error.message);
+    }
   }
 }
+
+export function createOpenAIAnalyzer(): OpenAICompatibleAnalyzer {
+  return new OpenAICompatibleAnalyzer({
+    provider: 'openai',
+    client: openai,
+    model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+    disabledReason: "Image analysis is disabled because OPENAI_API_KEY is not configured.",
+  });
+}
@@ -0,0 +1,150 @@
+import { gzipSync, gunzipSync } from "zlib";
+import { storage } from "../storage";
+import { getMarketplace, withCanonicalId, type MarketplaceListing } from "./marketplace";
+import { getAnalyzer, type AntiqueDealerAnalysisResult } from "./analyzer";
+import { recordAiUsage } from "./ai-usage";
+import type {
+  AnalyzedListing,
+  AnalyzerProvider,
+  InsertPageSnapshot,
+  PageSnapshot,
+  PageSnapshotKind,
+  PageSnapshotSummary,
+} from "@shared/schema";
+
+// Opt-in: every scraped page is stored (compressed) for replay
+const SNAPSHOTS_ENABLED = process.env.PAGE_SNAPSHOTS === 'true';
+const RETENTION_DAYS = parseInt(process.env.PAGE_SNAPSHOT_RETENTION_DAYS || '7');
+
+export function compressPage(html: string): string {
+  return gzipSync(html).toString('base64');
+}
+
+export function decompressPage(compressed: string): string {
+  return gunzipSync(Buffer.from(compressed, 'base64')).toString('utf-8');
+}
+
+/**
+ * Store a scraped page when snapshots are enabled. Never throws, so a full
+ * disk or a slow insert can't fail the scrape.
+ */
+export async function savePageSnapshot(
+  snapshot: Omit<InsertPageSnapshot, 'html' | 'sizeBytes'> & { html: string }
+): Promise<PageSnapshot | null> {
+  if (!SNAPSHOTS_ENABLED) return null;
+
+  try {
+    const saved = await storage.createPageSnapshot({
+      ...snapshot,
+      html: compressPage(snapshot.html),
+      sizeBytes: Buffer.byteLength(snapshot.html, 'utf-8'),
+    });
+    console.log(`📸 Saved ${snapshot.kind} page snapshot ${saved.id} (${Math.round(saved.sizeBytes / 1024)} KB)`);
+    return saved;
+  } catch (error: any) {
+    console.error("❌ Failed to save page snapshot:", error.message);
+    return null;
+  }
+}
+
+// Drop snapshots past the retention window
+export async function pruneSnapshots(): Promise<void> {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const deleted = await storage.deletePageSnapshotsBefore(cutoff);
+  if (deleted > 0) {
+    console.log(`🗑️ Deleted ${deleted} page snapshots older than ${RETENTION_DAYS} days`);
+  }
+}
+
+export interface ReplayOptions {
+  listingId?: string; // Only this listing (required to analyze a search page)
+  analyze?: boolean;
+  provider?: AnalyzerProvider | null;
+}
+
+export interface ReplayAnalysis {
+  listingId: string;
+  provider: AnalyzerProvider;
+  model: string;
+  result: AntiqueDealerAnalysisResult;
+  previous: AnalyzedListing | null; // What the pipeline recorded at the time, if anything
+}
+
+export interface ReplayResult {
+  strategy: string | null;
+  listings: MarketplaceListing[];
+  analyses: ReplayAnalysis[];
+}
+
+/**
+ * Re-run extraction, and optionally analysis, on a stored page without
+ * fetching anything from the marketplace. Nothing is recorded except AI
+ * usage, so replays don't create findings or change dedup state.
+ * Throws on invalid options (e.g. analyzing a whole search page).
+ */
+export async function replayPage(
+  page: { kind: PageSnapshotKind; source: string; url: string; html: string; searchQueryId?: string | null },
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const marketplace = getMarketplace(page.source);
+
+  let strategy: string | null;
+  let listings: MarketplaceListing[];
+  if (page.kind === 'search') {
+    ({ strategy, listings } = marketplace.parseSearchPage(page.html, page.url));
+  } else {
+    const parsed = marketplace.parseListingPage(page.html, page.url);
+    strategy = parsed.strategy;
+    listings = parsed.listing ? [parsed.listing] : [];
+  }
+  // Keyed like the scanner keys them, so stored analyses are found again
+  listings = listings.map(listing => withCanonicalId(marketplace, listing));
+
+  if (options.listingId) {
+    listings = listings.filter(listing => listing.listingId === options.listingId);
+    if (listings.length === 0) {
+      throw new Error(`Listing ${options.listingId} not found on the page`);
+    }
+  }
+
+  const analyses: ReplayAnalysis[] = [];
+  if (options.analyze) {
+    if (page.kind === 'search' && !options.listingId) {
+      throw new Error('listingId is required to analyze a listing from a search page');
+    }
+
+    const searchQuery = page.searchQueryId ? await storage.getSearchQuery(page.searchQueryId) : undefined;
+    const analyzer = getAnalyzer(options.provider ?? searchQuery?.analyzerProvider);
+
+    for (const listing of listings) {
+      console.log(`🔁 Replaying analysis of ${listing.listingId} with ${analyzer.provider} (${analyzer.model})`);
+      const result = await analyzer.analyze({
+        imageUrls: listing.imageUrls,
+        title: listing.title,
+        description: listing.description,
+        listingUrl: listing.listingUrl,
+        details: listing.details,
+      });
+      await recordAiUsage(analyzer, result.usage, { searchQueryId: page.searchQueryId ?? null, listingId: listing.listingId });
+
+      analyses.push({
+        listingId: listing.listingId,
+        provider: analyzer.provider,
+        model: analyzer.model,
+        result,
+        previous: await storage.getAnalyzedListing(listing.listingId) ?? null,
+      });
+    }
+  }
+
+  return { strategy, listings, analyses };
+}
+
+export async function replaySnapshot(
+  snapshot: PageSnapshot,
+  options: ReplayOptions = {}
+): Promise<ReplayResult & { snapshot: PageSnapshotSummary }> {
+  const { html, ...summary } = snapshot;
+  const result = await replayPage({ ...snapshot, kind: snapshot.kind as PageSnapshotKind, html: decompressPage(html) }, options);
+  return { snapshot: summary, ...result };
+}
@@ -0,0 +1,111 @@
+import { storage } from "../storage";
+import { currencyConverter } from "../utils/currency";
+import { formatPrice } from "@shared/price";
+import type { MarketplaceListing } from "./marketplace";
+import type { FilterRule, FilterRules, SearchQuery } from "@shared/schema";
+
+export interface FilterRejection {
+  rule: FilterRule;
+  reason: string;
+}
+
+// Lowercase, accents stripped, whitespace collapsed: "Plaqué  OR" -> "plaque or"
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// First keyword that appears as whole words, so "tin" doesn't match "plating"
+export function findKeyword(text: string, keywords: string[] = []): string | undefined {
+  const normalized = normalizeText(text);
+  return keywords.find(keyword => {
+    const term = normalizeText(keyword);
+    if (!term) return false;
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(normalized);
+  });
+}
+
+function matchesAny(value: string | undefined, candidates: string[] = []): string | undefined {
+  if (!value) return undefined;
+  return candidates.find(candidate => normalizeText(candidate) === normalizeText(value));
+}
+
+/**
+ * The first filter rule a listing breaks, or null when it should be analyzed.
+ * Search result cards lack most of the description and photos, so the rules
+ * that only more data could satisfy (required keywords, minimum photos) wait
+ * until the listing is `complete`; exclusions and prices apply right away.
+ * Listings with an unknown price pass the price rules.
+ */
+export function checkFilterRules(
+  listing: MarketplaceListing,
+  rules: FilterRules,
+  { complete = true }: { complete?: boolean } = {}
+): FilterRejection | null {
+  const base = currencyConverter.baseCurrency;
+  const price = listing.priceAmount !== null && listing.priceCurrency
+    ? currencyConverter.toBase(listing.priceAmount, listing.priceCurrency)
+    : null;
+  if (price !== null && rules.minPrice !== undefined && price < rules.minPrice) {
+    return { rule: 'min_price', reason: `Price ${formatPrice(price, base)} below minimum ${formatPrice(rules.minPrice, base)}` };
+  }
+  if (price !== null && rules.maxPrice !== undefined && price > rules.maxPrice) {
+    return { rule: 'max_price', reason: `Price ${formatPrice(price, base)} above maximum ${formatPrice(rules.maxPrice, base)}` };
+  }
+
+  const seller = matchesAny(listing.details?.sellerName, rules.excludedSellers)
+    ?? matchesAny(listing.details?.sellerId, rules.excludedSellers);
+  if (seller) {
+    return { rule: 'excluded_sellers', reason: `Excluded seller "${seller}"` };
+  }
+
+  const brand = matchesAny(listing.details?.brand, rules.excludedBrands);
+  if (brand) {
+    return { rule: 'excluded_brands', reason: `Excluded brand "${brand}"` };
+  }
+
+  const text = `${listing.title} ${listing.description ?? ''}`;
+  const excluded = findKeyword(text, rules.excludedKeywords);
+  if (excluded) {
+    return { rule: 'excluded_keywords', reason: `Mentions excluded keyword "${excluded}"` };
+  }
+
+  if (!complete) return null;
+
+  if (rules.requiredKeywords?.some(keyword => normalizeText(keyword)) && !findKeyword(text, rules.requiredKeywords)) {
+    return { rule: 'required_keywords', reason: `None of the required keywords (${rules.requiredKeywords.join(', ')})` };
+  }
+  if (rules.minPhotos !== undefined && listing.imageUrls.length < rules.minPhotos) {
+    return { rule: 'min_photos', reason: `${listing.imageUrls.length} photo(s), at least ${rules.minPhotos} required` };
+  }
+  return null;
+}
+
+/**
+ * Check a listing against its search's filter rules and record the
+ * rejection, if any. Returns whether the listing was filtered out.
+ */
+export async function applyFilterRules(
+  listing: MarketplaceListing,
+  searchQuery: SearchQuery,
+  scanRunId: string,
+  options: { complete?: boolean } = {}
+): Promise<boolean> {
+  if (!searchQuery.filterRules) return false;
+
+  const rejection = checkFilterRules(listing, searchQuery.filterRules, options);
+  if (!rejection) return false;
+
+  console.log(`🚫 Filtered ${listing.listingId} (${rejection.rule}): ${rejection.reason}`);
+  await storage.recordFilteredListing({
+    listingId: listing.listingId,
+    searchQueryId: searchQuery.id,
+    scanRunId,
+    rule: rejection.rule,
+    reason: rejection.reason,
+    listingUrl: listing.listingUrl,
+    listingTitle: listing.title,
+    price: listing.price,
+  });
+  return true;
+}
@@ -0,0 +1,115 @@
+import { storage } from "../storage";
+import { currencyConverter } from "../utils/currency";
+import { formatPrice } from "@shared/price";
+import type { InsertPurchase, Purchase, ProfitStats, PurchaseSummary } from "@shared/schema";
+
+// Listing title may be omitted when the purchase is linked to a finding
+export type PurchaseInput = Omit<InsertPurchase, 'listingTitle'> & { listingTitle?: string };
+
+function toAmount(value: string | null | undefined): number {
+  return value ? parseFloat(value) : 0;
+}
+
+function purchaseCost(purchase: Purchase): number {
+  return toAmount(purchase.purchasePrice) + toAmount(purchase.shippingCost) + toAmount(purchase.buyerProtectionFee);
+}
+
+function isSold(purchase: Purchase): boolean {
+  return purchase.soldAt !== null && purchase.resalePrice !== null;
+}
+
+function summarize(items: Purchase[]): ProfitStats {
+  const sold = items.filter(isSold);
+  const soldCost = sold.reduce((sum, p) => sum + purchaseCost(p), 0);
+  const revenue = sold.reduce((sum, p) => sum + toAmount(p.resalePrice) - toAmount(p.resaleFees), 0);
+  const profit = revenue - soldCost;
+
+  return {
+    purchases: items.length,
+    sold: sold.length,
+    totalCost: items.reduce((sum, p) => sum + purchaseCost(p), 0),
+    revenue,
+    profit,
+    roi: soldCost > 0 ? profit / soldCost : null,
+  };
+}
+
+function groupBy<K>(items: Purchase[], key: (purchase: Purchase) => K): Map<K, Purchase[]> {
+  const groups = new Map<K, Purchase[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+// Ledger amounts are in the base currency
+function formatBase(amount: string): string {
+  return formatPrice(parseFloat(amount), currencyConverter.baseCurrency);
+}
+
+/**
+ * Record a purchase. When linked to a finding, the listing title and search
+ * are copied over and the finding moves to "bought".
+ */
+export async function recordPurchase(input: PurchaseInput): Promise<Purchase> {
+  const finding = input.findingId ? await storage.getFinding(input.findingId) : undefined;
+  if (input.findingId && !finding) {
+    throw new Error("Finding not found");
+  }
+
+  const purchase = await storage.createPurchase({
+    ...input,
+    listingTitle: input.listingTitle || finding?.listingTitle || "Untitled purchase",
+    searchQueryId: input.searchQueryId ?? finding?.searchQueryId ?? null,
+  });
+
+  if (finding && finding.status !== 'bought') {
+    await storage.updateFindingStatus(finding.id, 'bought', { note: `Bought for ${formatBase(purchase.purchasePrice)}` });
+  }
+
+  console.log(`🛒 Purchase recorded: ${purchase.listingTitle} (${formatBase(purchase.purchasePrice)})`);
+  return purchase;
+}
+
+/**
+ * Update a purchase, typically to record the resale. The linked finding
+ * moves to "sold" once a resale price and date are known.
+ */
+export async function updatePurchase(id: string, updates: Partial<InsertPurchase>): Promise<Purchase | undefined> {
+  const existing = await storage.getPurchase(id);
+  if (!existing) return undefined;
+
+  const purchase = await storage.updatePurchase(id, updates);
+  if (!purchase) return undefined;
+
+  if (purchase.findingId && isSold(purchase) && !isSold(existing)) {
+    const finding = await storage.getFinding(purchase.findingId);
+    if (finding && finding.status !== 'sold') {
+      const channel = purchase.resaleChannel ? ` via ${purchase.resaleChannel}` : '';
+      await storage.updateFindingStatus(finding.id, 'sold', { note: `Sold for ${formatBase(purchase.resalePrice!)}${channel}` });
+    }
+  }
+
+  return purchase;
+}
+
+export async function getPurchaseSummary(): Promise<PurchaseSummary> {
+  const [allPurchases, searches] = await Promise.all([
+    storage.getPurchases(),
+    storage.getSearchQueries(),
+  ]);
+
+  const perSearch = Array.from(groupBy(allPurchases, p => p.searchQueryId), ([searchQueryId, items]) => ({
+    searchQueryId,
+    searchLabel: searches.find(s => s.id === searchQueryId)?.searchLabel ?? null,
+    ...summarize(items),
+  })).sort((a, b) => b.profit - a.profit);
+
+  const perMaterial = Array.from(groupBy(allPurchases, p => p.testedMaterial || 'untested'), ([material, items]) => ({
+    material,
+    ...summarize(items),
+  })).sort((a, b) => b.profit - a.profit);
+
+  return { total: summarize(allPurchases), perSearch, perMaterial };
+}
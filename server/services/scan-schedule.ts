@@ -0,0 +1,41 @@
+import type { SearchQuery, SearchQueryWithSchedule } from "@shared/schema";
+
+/**
+ * Deterministic jitter offset (in minutes) for the next scan of a search.
+ * Seeded by the search id and its last scan time, so the scheduler and the
+ * API always agree on the same "next scan at" until the search is scanned again.
+ */
+function getJitterOffsetMinutes(search: SearchQuery): number {
+  if (!search.scanJitterMinutes || !search.lastScannedAt) return 0;
+
+  const seed = `${search.id}:${new Date(search.lastScannedAt).getTime()}`;
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+
+  const fraction = (Math.abs(hash) % 1000) / 1000; // 0..1
+  return Math.round((fraction * 2 - 1) * search.scanJitterMinutes);
+}
+
+/**
+ * When a search should be scanned next, based on its own scan frequency
+ * and jitter window. Never-scanned searches are due immediately.
+ * Returns null for paused searches.
+ */
+export function getNextScanAt(search: SearchQuery): Date | null {
+  if (!search.isActive) return null;
+  if (!search.lastScannedAt) return new Date(search.createdAt);
+
+  const intervalMinutes = search.scanFrequencyHours * 60 + getJitterOffsetMinutes(search);
+  return new Date(new Date(search.lastScannedAt).getTime() + intervalMinutes * 60 * 1000);
+}
+
+export function isScanDue(search: SearchQuery, now: Date = new Date()): boolean {
+  const nextScanAt = getNextScanAt(search);
+  return nextScanAt !== null && nextScanAt.getTime() <= now.getTime();
+}
+
+export function withNextScanAt(search: SearchQuery): SearchQueryWithSchedule {
+  return { ...search, nextScanAt: getNextScanAt(search) };
+}
@@ -1,112 +1,408 @@
 import { storage } from "../storage";
-import { scrapeVintedSearch } from "./vinted-scraper";
-import { analyzeJewelryImages } from "./openai-analyzer";
+import { getMarketplace, withCanonicalId, type MarketplaceListing } from "./marketplace";
+import { getAnalyzer } from "./analyzer";
 import { sendTelegramAlert } from "./telegram";
-import type { SearchQuery } from "@shared/schema";
-
-export async function scanSearchQuery(searchQuery: SearchQuery): Promise<number> {
-  console.log(`\n=== Starting scan for: ${searchQuery.searchLabel} ===`);
-  
-  try {
-    const listings = await scrapeVintedSearch(searchQuery.vintedUrl);
-    let newFindings = 0;
-
-    for (const listing of listings) {
-      // Check if listing was already analyzed
-      const existingAnalysis = await storage.getAnalyzedListing(listing.listingId);
-      if (existingAnalysis) {
-        console.log(`Skipping already analyzed listing: ${listing.listingId}`);
-        continue;
-      }
-
-      // Check if we already have a finding for this listing URL (deduplication)
-      const existingFinding = await storage.getFindingByListingUrl(listing.listingUrl);
-      if (existingFinding) {
-        console.log(`Skipping listing with existing finding: ${listing.listingUrl}`);
-        continue;
-      }
-
-      console.log(`Analyzing new listing: ${listing.title}`);
-      
-      const analysis = await analyzeJewelryImages(
-        listing.imageUrls,
-        listing.title,
-        listing.description,
-        listing.listingUrl
-      );
-
-      // Record the analysis
-      await storage.createAnalyzedListing({
-        listingId: listing.listingId,
-        searchQueryId: searchQuery.id,
-        confidenceScore: analysis.confidence,
-        isValuable: analysis.isValuableLikely,
-        lotType: 'mixed', // Antique dealer treats all as mixed lots for now
-      });
-
-      // Fixed 75% confidence threshold requirement
-      const CONFIDENCE_THRESHOLD = 75;
-      
-      if (analysis.confidence >= CONFIDENCE_THRESHOLD && analysis.isValuableLikely) {
-        console.log(`✅ High-confidence valuable item found! Confidence: ${analysis.confidence}%`);
-        console.log(`💎 Main material: ${analysis.mainMaterialGuess}`);
-        console.log(`🎯 Reasons: ${analysis.reasons.join('; ')}`);
-        
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 15);
-
-        // Create the finding
-        const finding = await storage.createFinding({
-          listingId: listing.listingId,
-          listingUrl: listing.listingUrl,
-          listingTitle: listing.title,
-          price: listing.price,
-          confidenceScore: analysis.confidence,
-          aiReasoning: analysis.reasons.join('; '),
-          detectedMaterials: [analysis.mainMaterialGuess],
-          reasons: analysis.reasons,
-          isValuable: analysis.isValuableLikely,
-          lotType: 'mixed', // Antique dealer approach - all lots mixed
-          searchQueryId: searchQuery.id,
-          telegramSent: false,
-          expiresAt,
-        });
-
-        // Send Telegram alert with new format
-        const sent = await sendTelegramAlert(
-          listing.title,
-          listing.listingUrl,
-          listing.price,
-          analysis.confidence,
-          analysis.mainMaterialGuess,
-          analysis.reasons,
-          analysis.isValuableLikely
-        );
-
-        // Update finding record if alert was sent
-        if (sent && finding) {
-          // Note: In a real implementation, you'd update the database here
-          console.log(`📱 Telegram alert successfully sent`);
-        }
-
-        newFindings++;
-      } else {
-        console.log(`Item below 75% confidence threshold (${analysis.confidence}%) - not creating finding`);
-        console.log(`❌ isValuableLikely: ${analysis.isValuableLikely}`);
-        console.log(`💭 Main material guess: ${analysis.mainMaterialGuess}`);
-        console.log(`📝 Reasons: ${analysis.reasons.join('; ')}`);
-      }
-
-      // Rate limiting: wait 3 seconds between requests
-      await new Promise(resolve => setTimeout(resolve, 3000));
+import { createFindingFromAnalysis } from "./findings";
+import { enqueueJob, JobDeferredError } from "./job-queue";
+import { getBudgetStatus, recordAiUsage } from "./ai-usage";
+import { checkScrapeHealth } from "./scraper-health";
+import { savePageSnapshot } from "./page-snapshots";
+import { enrichListing, resolveEnrichmentMode, willFetchItemPage } from "./enrichment";
+import { applyFilterRules } from "./prefilter";
+import { triageListing } from "./triage";
+import { detectHallmarksInPhotos } from "./hallmark-ocr";
+import { estimateMeltValue, getSpotPrices, meetsMeltCriterion } from "./melt-value";
+import { currencyConverter } from "../utils/currency";
+import { formatPrice } from "@shared/price";
+import { tagListingText } from "@shared/hallmark-lexicon";
+import type { SearchQuery, ScanRun, ScanTrigger, Job } from "@shared/schema";
+
+const SCRAPE_MAX_ATTEMPTS = parseInt(process.env.SCRAPE_JOB_MAX_ATTEMPTS || '3');
+const ANALYZE_MAX_ATTEMPTS = parseInt(process.env.ANALYZE_JOB_MAX_ATTEMPTS || '4');
+const ANALYZE_DELAY_MS = parseInt(process.env.ANALYZE_DELAY_MS || '3000');
+
+interface ScrapeJobPayload {
+  searchQueryId: string;
+  scanRunId: string;
+}
+
+export interface AnalyzeJobPayload {
+  searchQueryId: string;
+  scanRunId: string;
+  listing: MarketplaceListing;
+}
+
+/**
+ * Queue a scan of a search query. Creates the scan run up front so it shows
+ * in the run log while waiting. Returns null if a scan for this search is
+ * already queued or running.
+ */
+export async function enqueueScan(
+  searchQuery: SearchQuery,
+  trigger: ScanTrigger = 'manual',
+  runAt?: Date
+): Promise<ScanRun | null> {
+  const dedupeKey = `scrape:${searchQuery.id}`;
+  if (await storage.hasOpenJob(dedupeKey)) {
+    console.log(`⏭️ Scan for ${searchQuery.searchLabel} already queued`);
+    return null;
+  }
+
+  const run = await storage.createScanRun({ searchQueryId: searchQuery.id, trigger, status: 'queued' });
+  const job = await enqueueJob({
+    type: 'scrape',
+    payload: { searchQueryId: searchQuery.id, scanRunId: run.id },
+    dedupeKey,
+    searchQueryId: searchQuery.id,
+    scanRunId: run.id,
+    maxAttempts: SCRAPE_MAX_ATTEMPTS,
+    runAt,
+  });
+  if (!job) {
+    // Another enqueuer got there between the check above and the insert
+    await storage.deleteScanRun(run.id);
+    return null;
+  }
+
+  console.log(`📥 Queued ${trigger} scan for: ${searchQuery.searchLabel}`);
+  return run;
+}
+
+/**
+ * Whether a result page reached listings this search is already past: ones
+ * analyzed or filtered out before, or older than the search's
+ * maxListingAgeHours. Assumes the search is sorted newest first, so the pages
+ * after it only hold older ones.
+ */
+async function reachedKnownListings(searchQuery: SearchQuery, listings: MarketplaceListing[]): Promise<boolean> {
+  if (searchQuery.maxListingAgeHours) {
+    const cutoff = Date.now() - searchQuery.maxListingAgeHours * 60 * 60 * 1000;
+    if (listings.some(listing => listing.details?.uploadedAt && Date.parse(listing.details.uploadedAt) < cutoff)) {
+      console.log(`🕰️ Reached listings older than ${searchQuery.maxListingAgeHours}h`);
+      return true;
+    }
+  }
+
+  const listingIds = listings.map(listing => listing.listingId);
+  const known = await storage.getAnalyzedListingIds(listingIds);
+  if (known.length > 0) {
+    console.log(`📚 Reached ${known.length} already analyzed listing(s)`);
+    return true;
+  }
+  const filtered = await storage.getFilteredListingIds(searchQuery.id, listingIds);
+  if (filtered.length > 0) {
+    console.log(`📚 Reached ${filtered.length} listing(s) filtered out before`);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Scrape job: fetch the search results (up to the search's page limit) and
+ * enqueue one analyze job per listing that hasn't been analyzed yet.
+ */
+export async function processScrapeJob(job: Job): Promise<void> {
+  const { searchQueryId, scanRunId } = job.payload as unknown as ScrapeJobPayload;
+  const searchQuery = await storage.getSearchQuery(searchQueryId);
+  if (!searchQuery) {
+    console.warn(`Search query ${searchQueryId} no longer exists, dropping scrape job`);
+    return;
+  }
+
+  console.log(`\n=== Starting scan for: ${searchQuery.searchLabel} (attempt ${job.attempts}/${job.maxAttempts}) ===`);
+  await storage.updateScanRun(scanRunId, { status: 'running', startedAt: new Date() });
+
+  const marketplace = getMarketplace(searchQuery.source);
+  const result = await marketplace.search(searchQuery.vintedUrl, {
+    maxPages: searchQuery.maxPages,
+    shouldStop: (listings) => reachedKnownListings(searchQuery, listings.map(listing => withCanonicalId(marketplace, listing))),
+  });
+  await checkScrapeHealth(searchQuery, scanRunId, result);
+  const listings = result.listings.map(listing => withCanonicalId(marketplace, listing));
+  await savePageSnapshot({
+    kind: 'search',
+    source: searchQuery.source,
+    url: searchQuery.vintedUrl,
+    searchQueryId,
+    scanRunId,
+    // Only the listings on the page whose HTML is stored
+    listingIds: listings.slice(0, result.firstPageListingCount).map(listing => listing.listingId),
+    strategy: result.strategy,
+    html: result.pageHtml,
+  });
+
+  const enrichmentMode = resolveEnrichmentMode(searchQuery.enrichmentMode);
+  let skippedDuplicates = 0;
+  let filteredOut = 0;
+  let queued = 0;
+  // Rejected by this search's rules on an earlier scan, possibly only after fetching the item page
+  const filteredBefore = new Set(await storage.getFilteredListingIds(searchQuery.id, listings.map(listing => listing.listingId)));
+
+  for (const listing of listings) {
+    // Check if listing was already analyzed
+    const existingAnalysis = await storage.getAnalyzedListing(listing.listingId);
+    if (existingAnalysis) {
+      console.log(`Skipping already analyzed listing: ${listing.listingId}`);
+      skippedDuplicates++;
+      continue;
+    }
+
+    // Check if we already have a finding for this listing (deduplication)
+    const existingFinding = await storage.getFindingByListingId(listing.listingId);
+    if (existingFinding) {
+      console.log(`Skipping listing with existing finding: ${listing.listingUrl}`);
+      skippedDuplicates++;
+      continue;
     }
 
-    await storage.updateLastScanned(searchQuery.id);
-    console.log(`=== Scan complete: ${newFindings} new high-confidence findings ===\n`);
-    
-    return newFindings;
-  } catch (error: any) {
-    console.error(`Error scanning search query ${searchQuery.id}:`, error.message);
-    return 0;
+    if (filteredBefore.has(listing.listingId)) {
+      console.log(`Skipping listing filtered out on an earlier scan: ${listing.listingId}`);
+      skippedDuplicates++;
+      continue;
+    }
+
+    // Rules that need the full listing are re-checked after enrichment
+    if (await applyFilterRules(listing, searchQuery, scanRunId, { complete: !willFetchItemPage(listing, enrichmentMode) })) {
+      filteredOut++;
+      continue;
+    }
+
+    // Another run may already have this listing waiting for analysis
+    const analyzeJob = await enqueueJob({
+      type: 'analyze',
+      payload: { searchQueryId, scanRunId, listing },
+      dedupeKey: `analyze:${listing.listingId}`,
+      searchQueryId,
+      scanRunId,
+      maxAttempts: ANALYZE_MAX_ATTEMPTS,
+    });
+    if (analyzeJob) {
+      queued++;
+    } else {
+      skippedDuplicates++;
+    }
   }
+
+  await storage.incrementScanRunStats(scanRunId, { listingsScraped: listings.length, skippedDuplicates, filteredOut });
+  await storage.updateScanRun(scanRunId, { pagesScanned: result.pagesScanned });
+  await storage.updateLastScanned(searchQuery.id);
+  console.log(`=== Scrape complete: ${queued} listings queued for analysis ===\n`);
+}
+
+/**
+ * Analyze job: complete the listing from its item page if needed, run the AI
+ * analysis, record it and create a finding + Telegram alert when it clears
+ * the search's threshold.
+ */
+export async function processAnalyzeJob(job: Job): Promise<void> {
+  const { searchQueryId, scanRunId, listing: searchListing } = job.payload as unknown as AnalyzeJobPayload;
+  const searchQuery = await storage.getSearchQuery(searchQueryId);
+  if (!searchQuery) {
+    console.warn(`Search query ${searchQueryId} no longer exists, dropping analyze job`);
+    return;
+  }
+
+  // The listing may have been analyzed by a previous attempt that crashed after recording it
+  if (await storage.getAnalyzedListing(searchListing.listingId)) {
+    console.log(`Listing ${searchListing.listingId} already analyzed, nothing to do`);
+    return;
+  }
+
+  // Hold analysis while the AI budget is exhausted
+  const budget = await getBudgetStatus();
+  if (budget.exceeded && budget.pausedUntil) {
+    throw new JobDeferredError('AI budget exceeded', new Date(budget.pausedUntil));
+  }
+
+  // Search results are often thin; complete them from the item page per the search's enrichment mode
+  const { listing, enrichment } = await enrichListing(searchListing, searchQuery, scanRunId);
+  if (enrichment === 'enriched') {
+    await storage.incrementScanRunStats(scanRunId, { enriched: 1 });
+
+    // Now the rules that waited for the full listing apply; after a failed fetch it gets the benefit of the doubt
+    if (await applyFilterRules(listing, searchQuery, scanRunId)) {
+      await storage.incrementScanRunStats(scanRunId, { filteredOut: 1 });
+      return;
+    }
+  }
+
+  // Deterministic hallmark/material tags from the text, kept alongside whatever the model concludes
+  const tags = tagListingText(`${listing.title} ${listing.description ?? ''}`);
+
+  // Cheap text-only screen first; only listings that pass it (plus a shadow sample) get the vision analysis
+  const triage = await triageListing(listing, searchQuery);
+  const triageFields = {
+    triageScore: triage?.result.score ?? null,
+    triageDecision: triage?.decision ?? null,
+    triageResult: triage?.result ?? null,
+  };
+  if (triage?.decision === 'dropped') {
+    // Recorded like an analysis so the listing isn't triaged again on the next scan
+    await storage.createAnalyzedListing({
+      listingId: listing.listingId,
+      searchQueryId: searchQuery.id,
+      confidenceScore: 0,
+      isValuable: false,
+      lotType: 'mixed',
+      listingUrl: listing.listingUrl,
+      listingTitle: listing.title,
+      price: listing.price,
+      description: listing.description ?? null,
+      imageUrls: listing.imageUrls,
+      details: listing.details ?? null,
+      enrichment,
+      tags,
+      mainMaterialGuess: 'unknown',
+      reasons: triage.result.reasons,
+      ...triageFields,
+    });
+    await storage.incrementScanRunStats(scanRunId, { triagedOut: 1 });
+    return;
+  }
+
+  console.log(`Analyzing new listing: ${listing.title}`);
+
+  // Optional local OCR for stamps too small for the vision model to read reliably
+  const detectedHallmarks = await detectHallmarksInPhotos(listing.imageUrls);
+
+  const analyzer = getAnalyzer(searchQuery.analyzerProvider);
+  const analysis = await analyzer.analyze({
+    imageUrls: listing.imageUrls,
+    title: listing.title,
+    description: listing.description,
+    listingUrl: listing.listingUrl,
+    details: listing.details,
+    detectedHallmarks: detectedHallmarks ?? undefined,
+  });
+  await recordAiUsage(analyzer, analysis.usage, { searchQueryId: searchQuery.id, listingId: listing.listingId });
+
+  if (analysis.error) {
+    await storage.incrementScanRunStats(scanRunId, { aiErrors: 1 });
+    // Let the queue retry; on the last attempt record the failed analysis so the listing isn't retried forever
+    if (job.attempts < job.maxAttempts) {
+      throw new Error(`AI analysis failed: ${analysis.error}`);
+    }
+  }
+
+  // Metal content from the stated weight and hallmark, valued at the spot prices in Settings
+  const meltEstimate = estimateMeltValue(
+    `${listing.title} ${listing.description ?? ''}`, tags, detectedHallmarks, await getSpotPrices()
+  );
+  const priceBase = listing.priceAmount !== null && listing.priceCurrency
+    ? currencyConverter.toBase(listing.priceAmount, listing.priceCurrency)
+    : null;
+  // With a melt criterion and an estimate, metal worth the price is enough; the confidence threshold no longer applies
+  const meltPasses = meetsMeltCriterion(searchQuery, meltEstimate, priceBase);
+
+  // Per-search confidence threshold; near misses below it go to the review queue
+  const confidenceThreshold = searchQuery.confidenceThreshold;
+  const isAlertWorthy = meltPasses !== null
+    ? meltPasses && analysis.isValuableLikely && !analysis.error
+    : analysis.confidence >= confidenceThreshold && analysis.isValuableLikely;
+  const isNearMiss = !isAlertWorthy && !analysis.error
+    && analysis.confidence >= searchQuery.nearMissMinScore && analysis.confidence < confidenceThreshold;
+
+  // Record the analysis
+  await storage.createAnalyzedListing({
+    listingId: listing.listingId,
+    searchQueryId: searchQuery.id,
+    confidenceScore: analysis.confidence,
+    isValuable: analysis.isValuableLikely,
+    lotType: 'mixed', // Antique dealer treats all as mixed lots for now
+    listingUrl: listing.listingUrl,
+    listingTitle: listing.title,
+    price: listing.price,
+    description: listing.description ?? null,
+    imageUrls: listing.imageUrls,
+    details: listing.details ?? null,
+    enrichment,
+    tags,
+    detectedHallmarks,
+    meltEstimate,
+    ...triageFields,
+    mainMaterialGuess: analysis.mainMaterialGuess,
+    reasons: analysis.reasons,
+    analysisResult: analysis,
+    analyzerProvider: analyzer.provider,
+    analyzerModel: analyzer.model,
+    reviewStatus: isNearMiss ? 'pending' : null,
+  });
+  await storage.incrementScanRunStats(scanRunId, { analyzed: 1 });
+
+  if (isAlertWorthy) {
+    console.log(`✅ High-confidence valuable item found! Confidence: ${analysis.confidence}%`);
+    console.log(`💎 Main material: ${analysis.mainMaterialGuess}`);
+    console.log(`🎯 Reasons: ${analysis.reasons.join('; ')}`);
+
+    // Create the finding
+    const finding = await createFindingFromAnalysis({
+      source: searchQuery.source,
+      listingId: listing.listingId,
+      listingUrl: listing.listingUrl,
+      listingTitle: listing.title,
+      price: listing.price,
+      priceAmount: listing.priceAmount,
+      priceCurrency: listing.priceCurrency,
+      details: listing.details,
+      tags,
+      detectedHallmarks,
+      meltEstimate,
+      confidenceScore: analysis.confidence,
+      mainMaterialGuess: analysis.mainMaterialGuess,
+      reasons: analysis.reasons,
+      isValuable: analysis.isValuableLikely,
+      searchQueryId: searchQuery.id,
+    });
+    await storage.incrementScanRunStats(scanRunId, { findingsCreated: 1 });
+
+    // Send Telegram alert with new format
+    const base = currencyConverter.baseCurrency;
+    const meltReason = meltEstimate
+      && `Melt value ~${formatPrice(meltEstimate.value, base)} (${meltEstimate.weightGrams} g ${meltEstimate.mark} ${meltEstimate.metal})`;
+    const sent = await sendTelegramAlert(
+      listing.title,
+      listing.listingUrl,
+      listing.price,
+      analysis.confidence,
+      analysis.mainMaterialGuess,
+      meltReason ? [meltReason, ...analysis.reasons] : analysis.reasons,
+      analysis.isValuableLikely,
+      meltPasses ? 0 : confidenceThreshold
+    );
+
+    if (sent) {
+      await storage.markTelegramSent(finding.id);
+      console.log(`📱 Telegram alert successfully sent`);
+      await storage.incrementScanRunStats(scanRunId, { alertsSent: 1 });
+    }
+  } else {
+    console.log(meltPasses === false
+      ? `Melt value ${meltEstimate!.value} below ${searchQuery.minMeltValuePercent}% of the price ${priceBase} - not creating finding`
+      : `Item below ${confidenceThreshold}% confidence threshold (${analysis.confidence}%) - not creating finding`);
+    console.log(`❌ isValuableLikely: ${analysis.isValuableLikely}`);
+    console.log(`💭 Main material guess: ${analysis.mainMaterialGuess}`);
+    console.log(`📝 Reasons: ${analysis.reasons.join('; ')}`);
+    if (isNearMiss) {
+      console.log(`🔎 Near miss queued for review (review band starts at ${searchQuery.nearMissMinScore}%)`);
+    }
+  }
+
+  // Rate limiting: wait between AI requests
+  await new Promise(resolve => setTimeout(resolve, ANALYZE_DELAY_MS));
+}
+
+/**
+ * Mark a scan run finished once none of its jobs are pending or running.
+ * A run with a recorded error (dead-lettered job) ends as failed.
+ */
+export async function finalizeScanRun(scanRunId: string): Promise<void> {
+  const openJobs = await storage.countOpenJobsForRun(scanRunId);
+  if (openJobs > 0) return;
+
+  const run = await storage.getScanRun(scanRunId);
+  if (!run || run.status === 'completed' || run.status === 'failed') return;
+
+  const status = run.errorMessage ? 'failed' : 'completed';
+  await storage.updateScanRun(scanRunId, { status, finishedAt: new Date() });
+  console.log(`🏁 Scan run ${scanRunId} ${status}: ${run.findingsCreated} findings, ${run.alertsSent} alerts`);
 }
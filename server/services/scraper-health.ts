@@ -0,0 +1,104 @@
+import { storage } from "../storage";
+import { sendOperatorAlert } from "./telegram";
+import { compressPage } from "./page-snapshots";
+import type { MarketplaceSearchResult } from "./marketplace";
+import type { SearchQuery, ScraperAlertKind } from "@shared/schema";
+
+// Completed runs with results needed before a search has a baseline, and how many recent runs count
+const DRIFT_MIN_RUNS = parseInt(process.env.SCRAPER_DRIFT_MIN_RUNS || '3');
+const DRIFT_HISTORY_RUNS = parseInt(process.env.SCRAPER_DRIFT_HISTORY_RUNS || '10');
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Expected number of scraped listings for a search: the median of its recent
+ * completed runs that found anything. Null until there is enough history.
+ */
+export async function getListingsBaseline(searchQueryId: string, excludeRunId?: string): Promise<number | null> {
+  const counts = (await storage.getScanRuns(searchQueryId, DRIFT_HISTORY_RUNS + 1))
+    .filter(run => run.id !== excludeRunId && run.status === 'completed' && run.listingsScraped > 0)
+    .slice(0, DRIFT_HISTORY_RUNS)
+    .map(run => run.listingsScraped);
+  return counts.length >= DRIFT_MIN_RUNS ? median(counts) : null;
+}
+
+/**
+ * Which drift, if any, a search result shows. An empty result only counts
+ * when the search normally has listings; the DOM fallback always counts,
+ * since it means the structured data the primary parsers read is gone.
+ */
+export function detectDrift(result: Pick<MarketplaceSearchResult, 'listings' | 'strategy'>, baseline: number | null): ScraperAlertKind | null {
+  if (result.listings.length === 0) {
+    return baseline !== null ? 'zero_results' : null;
+  }
+  return result.strategy === 'dom' ? 'dom_fallback' : null;
+}
+
+function describeDrift(kind: ScraperAlertKind, result: MarketplaceSearchResult, baseline: number | null): string {
+  const expected = baseline !== null ? ` (usually ~${baseline})` : '';
+  return kind === 'zero_results'
+    ? `No listings could be extracted${expected}`
+    : `Only the DOM fallback parser matched: ${result.listings.length} listings${expected}`;
+}
+
+/**
+ * Record the extraction strategy of a scan run and check it for parser
+ * drift. Opens an alert (with the scraped page) and notifies the operator
+ * once per search and kind; a healthy scan resolves the search's open alerts.
+ * Never throws, so a monitoring hiccup can't fail the scrape.
+ */
+export async function checkScrapeHealth(
+  searchQuery: SearchQuery,
+  scanRunId: string,
+  result: MarketplaceSearchResult
+): Promise<void> {
+  try {
+    await storage.updateScanRun(scanRunId, { extractionStrategy: result.strategy });
+
+    const baseline = await getListingsBaseline(searchQuery.id, scanRunId);
+    const kind = detectDrift(result, baseline);
+
+    if (!kind) {
+      if (result.listings.length > 0) {
+        const resolved = await storage.resolveScraperAlertsForSearch(searchQuery.id);
+        if (resolved > 0) {
+          console.log(`✅ Scraper healthy again for ${searchQuery.searchLabel}, resolved ${resolved} alert(s)`);
+        }
+      }
+      return;
+    }
+
+    const description = describeDrift(kind, result, baseline);
+    console.warn(`⚠️ Parser drift for ${searchQuery.searchLabel}: ${description}`);
+
+    if (await storage.findOpenScraperAlert(searchQuery.id, kind)) {
+      return; // Already reported
+    }
+
+    await storage.createScraperAlert({
+      searchQueryId: searchQuery.id,
+      scanRunId,
+      kind,
+      strategy: result.strategy,
+      listingsFound: result.listings.length,
+      baselineListings: baseline,
+      pageUrl: searchQuery.vintedUrl,
+      rawPage: compressPage(result.pageHtml),
+    });
+
+    await sendOperatorAlert(
+      `⚠️ Scraper drift: ${searchQuery.searchLabel}\n${description}\n${searchQuery.vintedUrl}\n\nThe scraped page is attached.`,
+      {
+        filename: `scrape-${searchQuery.source}-${new Date().toISOString().slice(0, 10)}.html`,
+        content: Buffer.from(result.pageHtml, 'utf-8'),
+        contentType: 'text/html',
+      }
+    );
+  } catch (error: any) {
+    console.error("❌ Scraper health check failed:", error.message);
+  }
+}
@@ -0,0 +1,49 @@
+import { MAX_SEARCH_PAGES } from "@shared/schema";
+import type { MarketplaceListing, MarketplaceSearchResult } from "./marketplace";
+
+export interface SearchOptions {
+  maxPages?: number; // Default 1 (first page only)
+  /**
+   * Called with each page's new listings; returning true stops before the
+   * next page (e.g. the page reached listings that were already analyzed).
+   */
+  shouldStop?: (listings: MarketplaceListing[]) => boolean | Promise<boolean>;
+}
+
+/**
+ * Read result pages 1..maxPages until one comes back empty or `shouldStop`
+ * says so. Listings that moved onto a later page between requests are only
+ * kept once. `strategy` and `pageHtml` are the first page's, which is what
+ * drift detection and snapshots look at; the first `firstPageListingCount`
+ * listings are the ones on that page.
+ */
+export async function collectSearchPages<R extends Omit<MarketplaceSearchResult, 'pagesScanned' | 'firstPageListingCount'>>(
+  options: SearchOptions,
+  fetchPage: (page: number) => Promise<R>
+): Promise<R & { pagesScanned: number; firstPageListingCount: number }> {
+  const maxPages = Math.min(Math.max(options.maxPages ?? 1, 1), MAX_SEARCH_PAGES);
+  const seen = new Set<string>();
+  let first: R | null = null;
+  const listings: R['listings'] = [];
+  let pagesScanned = 0;
+  let firstPageListingCount = 0;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const result = await fetchPage(page);
+    first ??= result;
+    pagesScanned = page;
+
+    const fresh = result.listings.filter(listing => !seen.has(listing.listingId));
+    fresh.forEach(listing => seen.add(listing.listingId));
+    listings.push(...fresh);
+    if (page === 1) firstPageListingCount = fresh.length;
+
+    if (fresh.length === 0 || page === maxPages) break;
+    if (await options.shouldStop?.(fresh)) {
+      console.log(`⏹️ Stopping after page ${page} of ${maxPages}`);
+      break;
+    }
+  }
+
+  return { ...first!, listings, pagesScanned, firstPageListingCount };
+}
@@ -38,7 +38,8 @@ function getConfidenceEmoji(score: number): string {
 
 /**
  * Send a Telegram alert for high-confidence jewelry findings
- * Only sends alerts for confidence >= 75% and isValuableLikely === true
+ * Only sends alerts for confidence >= minConfidence (75% unless the search
+ * configures its own threshold) and isValuableLikely === true
  * Includes rate limiting and deduplication
  */
 export async function sendTelegramAlert(
@@ -48,10 +49,11 @@ export async function sendTelegramAlert(
   confidenceScore: number,
   mainMaterialGuess: string,
   reasons: string[],
-  isValuableLikely: boolean
+  isValuableLikely: boolean,
+  minConfidence: number = 75
 ): Promise<boolean> {
   // Check core requirements before proceeding
-  if (confidenceScore < 75 || !isValuableLikely) {
+  if (confidenceScore < minConfidence || !isValuableLikely) {
     console.log(`Skipping Telegram alert: confidence ${confidenceScore}%, isValuableLikely: ${isValuableLikely}`);
     return false;
   }
@@ -107,6 +109,36 @@ ${reasons.map(reason => `   • ${reason}`).join('\n')}
   }
 }
 
+/**
+ * Send an operational alert (e.g. scraper breakage) to the alert chat,
+ * optionally with a file attached. Bypasses the finding rate limiter.
+ */
+export async function sendOperatorAlert(
+  message: string,
+  attachment?: { filename: string; content: Buffer; contentType: string }
+): Promise<boolean> {
+  if (!bot || !TELEGRAM_CHAT_ID) {
+    console.warn("Telegram bot not configured - skipping operator alert");
+    return false;
+  }
+
+  try {
+    if (attachment) {
+      await bot.sendDocument(TELEGRAM_CHAT_ID, attachment.content, { caption: message }, {
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+      });
+    } else {
+      await bot.sendMessage(TELEGRAM_CHAT_ID, message);
+    }
+    console.log(`✅ Operator alert sent: ${message.split('\n')[0]}`);
+    return true;
+  } catch (error: any) {
+    console.error("❌ Error sending operator alert:", error.message);
+    return false;
+  }
+}
+
 /**
  * Get current rate limiting status for monitoring
  */
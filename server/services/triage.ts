@@ -0,0 +1,265 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import { storage } from "../storage";
+import { currencyConverter } from "../utils/currency";
+import { recordAiUsage } from "./ai-usage";
+import { findKeyword } from "./prefilter";
+import type { MarketplaceListing } from "./marketplace";
+import { tagListingText } from "@shared/hallmark-lexicon";
+import {
+  triageModeEnum,
+  type AnalyzerProvider,
+  type SearchQuery,
+  type TriageBucket,
+  type TriageDecision,
+  type TriageProvider,
+  type TriageResult,
+  type TriageStats,
+} from "@shared/schema";
+
+const TRIAGE_MODE = triageModeEnum.catch('off').parse(process.env.TRIAGE_MODE);
+const DEFAULT_MIN_SCORE = parseInt(process.env.TRIAGE_MIN_SCORE || '40');
+// Share of below-threshold listings still sent to vision, to measure what triage drops
+const SHADOW_RATE = Math.min(Math.max(parseFloat(process.env.TRIAGE_SHADOW_RATE || '0.1') || 0, 0), 1);
+
+// Text-only model for 'llm' triage; TRIAGE_BASE_URL points it at an OpenAI-compatible server (e.g. Ollama)
+const TRIAGE_MODEL = process.env.TRIAGE_MODEL || 'gpt-4.1-nano';
+const TRIAGE_BASE_URL = process.env.TRIAGE_BASE_URL;
+
+/**
+ * A cheap first-stage screen that scores a listing from its text, price and
+ * seller data alone. Implementations never throw: failures come back with
+ * `error` set and are escalated to the vision analysis.
+ */
+export interface Triage {
+  readonly provider: TriageProvider;
+  readonly model: string;
+  /** Whose prices apply to the token usage; null when the triage is free */
+  readonly billedAs: AnalyzerProvider | null;
+  triage(listing: MarketplaceListing): Promise<TriageResult>;
+}
+
+// Cues beyond the hallmark lexicon, matched as whole words after accent folding; each language's variant is listed
+const PERIOD_TERMS = [
+  'antique', 'antiek', 'ancien', 'antik', 'antiguo', 'victorian', 'georgian', 'edwardian',
+  'art deco', 'art nouveau', 'jugendstil', 'biedermeier', 'estate',
+];
+const GEMSTONE_TERMS = [
+  'diamond', 'diamant', 'ruby', 'robijn', 'rubis', 'sapphire', 'saffier', 'saphir', 'emerald', 'smaragd',
+  'pearl', 'parel', 'perle', 'opal', 'opaal', 'garnet', 'granaat', 'amber', 'barnsteen', 'coral', 'koraal',
+];
+// Sellers who don't know what they have are the arbitrage
+const UNKNOWING_SELLER_TERMS = [
+  'unmarked', 'not sure', 'no idea', 'unknown', 'geen idee', 'weet niet', 'onbekend', 'inheritance', 'nalatenschap',
+  'erfenis', 'succession', 'heritage', 'grandmother', 'oma', 'grand-mere', 'zolder', 'attic',
+];
+// Non-metal costume jewelry; plated and imitation metals come from the lexicon
+const COSTUME_TERMS = [
+  'costume', 'fashion jewelry', 'bijoux fantaisie', 'modeschmuck', 'bijouterie', 'stainless steel', 'edelstaal',
+  'rvs', 'alloy', 'legering', 'acrylic', 'plastic', 'resin', 'replica',
+];
+
+/**
+ * Keyword and price heuristics, no model call. Starts neutral-low and moves
+ * with each cue, so a bare "ring" scores below a "925 zilveren ring antiek".
+ */
+export function scoreListingHeuristically(listing: MarketplaceListing): Pick<TriageResult, 'score' | 'reasons'> {
+  const text = `${listing.title} ${listing.description ?? ''}`;
+  const tags = tagListingText(text);
+  let score = 30;
+  const reasons: string[] = [];
+  const cue = (points: number, reason: string) => {
+    score += points;
+    reasons.push(`${points > 0 ? '+' : ''}${points} ${reason}`);
+  };
+
+  if (tags.hallmarks.length > 0) cue(25, `hallmark ${tags.hallmarks.map(hallmark => hallmark.mark).join(', ')}`);
+  const costume = tags.plated[0] ?? findKeyword(text, COSTUME_TERMS);
+  if (tags.metals.length > 0 && !costume) cue(20, `precious metal (${tags.metals.join(', ')})`);
+  if (costume) cue(-30, `costume/plated cue "${costume}"`);
+  if (tags.negated.length > 0) cue(-10, `denies "${tags.negated.join('", "')}"`);
+  const period = findKeyword(text, PERIOD_TERMS);
+  if (period) cue(10, `period/estate cue "${period}"`);
+  const gemstone = findKeyword(text, GEMSTONE_TERMS);
+  if (gemstone) cue(10, `gemstone "${gemstone}"`);
+  const unknowing = findKeyword(text, UNKNOWING_SELLER_TERMS);
+  if (unknowing) cue(10, `seller unsure of origin ("${unknowing}")`);
+
+  const price = listing.priceAmount !== null && listing.priceCurrency
+    ? currencyConverter.toBase(listing.priceAmount, listing.priceCurrency)
+    : null;
+  if (price !== null && price > 500) cue(-15, 'priced like the seller knows its value');
+  if (listing.details?.favouriteCount !== undefined && listing.details.favouriteCount >= 20) {
+    cue(-5, `${listing.details.favouriteCount} favourites (competition)`);
+  }
+
+  return { score: Math.min(Math.max(score, 0), 100), reasons };
+}
+
+class HeuristicTriage implements Triage {
+  readonly provider = 'heuristic' as const;
+  readonly model = 'keywords';
+  readonly billedAs = null;
+
+  async triage(listing: MarketplaceListing): Promise<TriageResult> {
+    return { ...scoreListingHeuristically(listing), provider: this.provider, model: this.model };
+  }
+}
+
+const TriageResponseSchema = z.object({
+  score: z.number().min(0).max(100),
+  reasons: z.array(z.string()),
+});
+
+const TRIAGE_PROMPT = `You screen second-hand jewelry listings for an antique dealer before an expensive photo analysis.
+From the text alone, score 0-100 how likely the item is undervalued solid gold or silver, natural gemstones or pearls, antique or signed vintage jewelry.
+Raise the score for hallmarks (925, 800, 585, 750, 14k, 18k), precious materials, period styles and sellers who don't know what they have.
+Lower it for plated, gold/silver tone, costume or fashion jewelry, stainless steel, and prices that already reflect full value.
+Listings may be in Dutch, French, German or English.
+
+OUTPUT JSON ONLY - NO MARKDOWN:
+{"score": 0-100, "reasons": ["string"]}`;
+
+class LlmTriage implements Triage {
+  readonly provider = 'llm' as const;
+  readonly model = TRIAGE_MODEL;
+  readonly billedAs: AnalyzerProvider = TRIAGE_BASE_URL ? 'ollama' : 'openai';
+  private client: OpenAI | null;
+
+  constructor() {
+    this.client = TRIAGE_BASE_URL
+      ? new OpenAI({ baseURL: TRIAGE_BASE_URL, apiKey: process.env.TRIAGE_API_KEY || 'ollama' })
+      : process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+  }
+
+  async triage(listing: MarketplaceListing): Promise<TriageResult> {
+    const failed = (error: string): TriageResult => ({
+      score: 100, reasons: [`Triage failed, escalating: ${error}`], provider: this.provider, model: this.model, error,
+    });
+    if (!this.client) {
+      return failed('LLM triage needs OPENAI_API_KEY or TRIAGE_BASE_URL');
+    }
+
+    const details = listing.details;
+    const facts = [
+      `Title: "${listing.title}"`,
+      `Description: "${listing.description || ''}"`,
+      `Price: ${listing.price}`,
+      details?.brand && `Brand: "${details.brand}"`,
+      details?.condition && `Condition: "${details.condition}"`,
+      details?.sellerRating !== undefined && `Seller rating: ${details.sellerRating.toFixed(1)}/5`,
+      details?.favouriteCount !== undefined && `Favourites: ${details.favouriteCount}`,
+    ].filter(Boolean).join('\n');
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          { role: 'system', content: TRIAGE_PROMPT },
+          { role: 'user', content: facts },
+        ],
+        max_tokens: 200,
+        temperature: 0,
+      });
+
+      const usage = response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      } : undefined;
+
+      const jsonMatch = response.choices[0]?.message?.content?.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        return { ...failed('No JSON in triage response'), usage };
+      }
+      const parsed = TriageResponseSchema.parse(JSON.parse(jsonMatch[0]));
+      return { score: Math.round(parsed.score), reasons: parsed.reasons, provider: this.provider, model: this.model, usage };
+    } catch (error: any) {
+      console.error('Error in LLM triage:', error.message);
+      return failed(error.message);
+    }
+  }
+}
+
+const factories: Record<TriageProvider, () => Triage> = {
+  heuristic: () => new HeuristicTriage(),
+  llm: () => new LlmTriage(),
+};
+
+const triages = new Map<TriageProvider, Triage>();
+
+// The configured triage, or null when TRIAGE_MODE is off
+export function getTriage(): Triage | null {
+  if (TRIAGE_MODE === 'off') return null;
+
+  let triage = triages.get(TRIAGE_MODE);
+  if (!triage) {
+    triage = factories[TRIAGE_MODE]();
+    triages.set(TRIAGE_MODE, triage);
+    console.log(`🚦 Triage ready: ${triage.provider} (${triage.model})`);
+  }
+  return triage;
+}
+
+// Stable 0..1 value per listing, so a retried job makes the same shadow decision
+function shadowFraction(listingId: string): number {
+  let hash = 0;
+  for (let i = 0; i < listingId.length; i++) {
+    hash = (hash * 31 + listingId.charCodeAt(i)) | 0;
+  }
+  return (Math.abs(hash) % 10000) / 10000;
+}
+
+export function decideTriage(result: TriageResult, minScore: number, listingId: string): TriageDecision {
+  if (result.error || result.score >= minScore) return 'escalated';
+  return shadowFraction(listingId) < SHADOW_RATE ? 'shadow' : 'dropped';
+}
+
+/**
+ * Run the triage stage for a listing and decide whether it goes on to the
+ * vision analysis. Null when triage is off.
+ */
+export async function triageListing(
+  listing: MarketplaceListing,
+  searchQuery: SearchQuery
+): Promise<{ result: TriageResult; decision: TriageDecision } | null> {
+  const triage = getTriage();
+  if (!triage) return null;
+
+  const result = await triage.triage(listing);
+  if (triage.billedAs) {
+    await recordAiUsage({ provider: triage.billedAs, model: triage.model }, result.usage, {
+      searchQueryId: searchQuery.id,
+      listingId: listing.listingId,
+    });
+  }
+
+  const minScore = searchQuery.triageMinScore ?? DEFAULT_MIN_SCORE;
+  const decision = decideTriage(result, minScore, listing.listingId);
+  console.log(`🚦 Triage ${result.score}/${minScore} for ${listing.listingId}: ${decision}`);
+  return { result, decision };
+}
+
+export async function getTriageStats(days = 30): Promise<TriageStats> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const counts = await storage.getTriageCountsSince(since);
+  const bucket = (decision: TriageDecision): TriageBucket => {
+    const row = counts.find(count => count.decision === decision);
+    return { listings: row?.listings ?? 0, finds: row?.finds ?? 0 };
+  };
+
+  const shadow = bucket('shadow');
+  const dropped = bucket('dropped');
+  const missRate = shadow.listings > 0 ? shadow.finds / shadow.listings : null;
+
+  return {
+    mode: TRIAGE_MODE,
+    minScore: DEFAULT_MIN_SCORE,
+    shadowRate: SHADOW_RATE,
+    escalated: bucket('escalated'),
+    dropped,
+    shadow,
+    missRate,
+    estimatedMissedFinds: missRate !== null ? Math.round(missRate * dropped.listings * 10) / 10 : null,
+  };
+}
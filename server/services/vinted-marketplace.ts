@@ -0,0 +1,35 @@
+import { getVintedDomain, VINTED_DOMAINS, DEFAULT_VINTED_DOMAIN } from "@shared/vinted-domains";
+import { scrapeVintedSearch, scrapeVintedListing } from "./vinted-scraper";
+import { parseVintedSearch, parseVintedListing } from "./vinted-parser";
+import type { MarketplaceAdapter } from "./marketplace";
+
+// Vinted keeps bare numeric item ids so existing analyses still deduplicate
+export function createVintedMarketplace(): MarketplaceAdapter {
+  return {
+    source: 'vinted',
+
+    matchesUrl(url) {
+      return getVintedDomain(url) !== null;
+    },
+
+    canonicalId(listingUrl) {
+      return listingUrl.match(/\/items\/(\d+)/)?.[1] ?? null;
+    },
+
+    search(searchUrl, options) {
+      return scrapeVintedSearch(searchUrl, options);
+    },
+
+    fetchListing(listingUrl) {
+      return scrapeVintedListing(listingUrl);
+    },
+
+    parseSearchPage(html, searchUrl) {
+      return parseVintedSearch(html, getVintedDomain(searchUrl) ?? VINTED_DOMAINS[DEFAULT_VINTED_DOMAIN]);
+    },
+
+    parseListingPage(html, listingUrl) {
+      return parseVintedListing(html, listingUrl, getVintedDomain(listingUrl) ?? VINTED_DOMAINS[DEFAULT_VINTED_DOMAIN]);
+    },
+  };
+}
@@ -0,0 +1,275 @@
+// Pure extraction of Vinted listings from page HTML. The scraper hands in
+// `page.content()`; the fixture checks hand in saved pages.
+
+import { load, type CheerioAPI } from 'cheerio';
+import { parsePrice } from '@shared/price';
+import { vintedOrigin, type VintedDomain } from '@shared/vinted-domains';
+import { compactDetails, detailsFromJsonLd, toCount, toIsoTimestamp } from '@shared/listing-details';
+import type { ListingDetails } from '@shared/schema';
+
+export interface VintedListing {
+  listingId: string;
+  title: string;
+  price: string; // As displayed
+  priceAmount: number | null;
+  priceCurrency: string | null; // ISO 4217
+  imageUrls: string[];
+  listingUrl: string;
+  description?: string;
+  details?: ListingDetails;
+}
+
+type RawVintedListing = Omit<VintedListing, 'priceAmount' | 'priceCurrency'>;
+
+export type VintedSearchStrategy = 'catalog_items' | 'items' | 'initial_data' | 'dom';
+export type VintedListingStrategy = 'initial_data' | 'json_ld' | 'meta' | 'dom';
+
+export interface VintedSearchParseResult {
+  listings: VintedListing[];
+  strategy: VintedSearchStrategy | null; // null when nothing could be extracted
+}
+
+export interface VintedListingParseResult {
+  listing: VintedListing;
+  strategy: VintedListingStrategy;
+}
+
+// Structured price from the displayed price text; bare numbers are in the domain's currency
+function withParsedPrice(listing: RawVintedListing, domain: VintedDomain): VintedListing {
+  const parsed = parsePrice(listing.price, domain.currency);
+  return {
+    ...listing,
+    priceAmount: parsed?.amount ?? null,
+    priceCurrency: parsed?.currency ?? null,
+  };
+}
+
+/**
+ * The JSON array or object starting at `start`, matched by bracket depth
+ * (string-aware), so nested arrays such as `photos` don't cut it short.
+ */
+function extractJson(content: string, start: number): string | null {
+  const open = content[start];
+  const close = open === '[' ? ']' : open === '{' ? '}' : null;
+  if (!close) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return content.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+// JSON values following each match of a global pattern (the pattern must end right before the value)
+function jsonValuesAfter(content: string, pattern: RegExp): any[] {
+  const values: any[] = [];
+  for (const match of content.matchAll(pattern)) {
+    const json = extractJson(content, match.index! + match[0].length);
+    if (!json) continue;
+    try {
+      values.push(JSON.parse(json));
+    } catch {
+      // Not JSON after all (e.g. a JS object literal); try the next match
+    }
+  }
+  return values;
+}
+
+function scriptContents($: CheerioAPI): string[] {
+  return $('script').toArray().map(script => $(script).text());
+}
+
+function listingIdFromUrl(url: string): string | null {
+  return url.match(/\/items\/(\d+)/)?.[1] ?? null;
+}
+
+// Item JSON (catalog search results and item pages share most field names) -> details
+function detailsFromItem(item: any): ListingDetails | undefined {
+  const user = item.user ?? {};
+  const reputation = typeof user.feedback_reputation === 'number' ? user.feedback_reputation : null; // 0-1
+  return compactDetails({
+    brand: item.brand_title || item.brand_dto?.title || (typeof item.brand === 'string' ? item.brand : item.brand?.title),
+    condition: item.status,
+    size: item.size_title || (typeof item.size === 'string' ? item.size : undefined),
+    category: item.catalog_title || item.catalog_branch_title,
+    sellerId: user.id?.toString(),
+    sellerName: user.login,
+    sellerRating: reputation !== null ? Math.round(reputation * 50) / 10 : undefined,
+    uploadedAt: toIsoTimestamp(item.created_at_ts ?? item.photo?.high_resolution?.timestamp),
+    favouriteCount: toCount(item.favourite_count),
+    viewCount: toCount(item.view_count),
+  });
+}
+
+// Catalog JSON item -> listing
+function fromCatalogItem(item: any, origin: string): RawVintedListing {
+  return {
+    listingId: item.id.toString(),
+    title: item.title.trim(),
+    price: item.price
+      ? (item.price.amount ? `${item.price.amount} ${item.price.currency_code || ''}`.trim() : `${item.price}`)
+      : 'Price not available',
+    imageUrls: item.photos?.map((p: any) => p.url || p.full_size_url || p.url_template).filter(Boolean) || [],
+    listingUrl: item.url || `${origin}/items/${item.id}`,
+    description: item.description || '',
+    details: detailsFromItem(item),
+  };
+}
+
+// Most specific first: the generic "items" pattern also matches __INITIAL_DATA__ scripts
+const SEARCH_SCRIPT_STRATEGIES: { strategy: VintedSearchStrategy; marker?: string; pattern: RegExp }[] = [
+  { strategy: 'catalog_items', pattern: /"catalog_items"\s*:\s*/g },
+  { strategy: 'initial_data', marker: '__INITIAL_DATA__', pattern: /"items"\s*:\s*/g },
+  { strategy: 'items', pattern: /"items"\s*:\s*/g },
+];
+
+/**
+ * Extract listings from a catalog search page: embedded JSON in script tags
+ * first, then the rendered item grid.
+ */
+export function parseVintedSearch(html: string, domain: VintedDomain): VintedSearchParseResult {
+  const $ = load(html);
+  const origin = vintedOrigin(domain);
+
+  for (const content of scriptContents($)) {
+    for (const { strategy, marker, pattern } of SEARCH_SCRIPT_STRATEGIES) {
+      if (marker && !content.includes(marker)) continue;
+      for (const items of jsonValuesAfter(content, pattern)) {
+        if (!Array.isArray(items)) continue;
+
+        const listings = items
+          .filter(item => item?.id && item?.title)
+          .map(item => withParsedPrice(fromCatalogItem(item, origin), domain));
+        if (listings.length > 0) {
+          return { listings, strategy };
+        }
+      }
+    }
+  }
+
+  // Fallback: the rendered grid
+  const listings: VintedListing[] = [];
+  $('[data-testid*="item"], .catalog-grid .item, .items-grid .item').each((_, element) => {
+    const item = $(element);
+    const title = item.find('h3, h4, .item-title').first().text().trim();
+    const price = item.find('.price, .item-price').first().text().trim();
+    const link = item.find('a[href*="/items/"]').first().attr('href');
+    if (!title || !link) return;
+
+    const listingId = listingIdFromUrl(link);
+    if (!listingId) return;
+
+    listings.push(withParsedPrice({
+      listingId,
+      title,
+      price: price || 'Price not available',
+      imageUrls: item.find('img').map((_, img) => $(img).attr('src')).get().filter(Boolean),
+      listingUrl: link.startsWith('http') ? link : `${origin}${link}`,
+      description: '',
+    }, domain));
+  });
+
+  return { listings, strategy: listings.length > 0 ? 'dom' : null };
+}
+
+type ListingFields = Pick<RawVintedListing, 'title' | 'price' | 'imageUrls' | 'description' | 'details'>;
+
+const LISTING_STRATEGIES: [VintedListingStrategy, ($: CheerioAPI) => ListingFields | null][] = [
+  ['initial_data', ($) => {
+    for (const content of scriptContents($)) {
+      if (!content.includes('__INITIAL_DATA__')) continue;
+      const item = jsonValuesAfter(content, /window\.__INITIAL_DATA__\s*=\s*/g)[0]?.item?.item;
+      if (item) {
+        return {
+          title: item.title || '',
+          price: item.price ? `${item.price.amount} ${item.price.currency}` : '',
+          imageUrls: item.photos?.map((p: any) => p.url || p.full_size_url).filter(Boolean) || [],
+          description: item.description || '',
+          details: detailsFromItem(item),
+        };
+      }
+    }
+    return null;
+  }],
+
+  ['json_ld', ($) => {
+    const jsonLd = $('script[type="application/ld+json"]').first().text();
+    if (!jsonLd) return null;
+    try {
+      const data = JSON.parse(jsonLd);
+      if (!data.offers) return null;
+      return {
+        title: data.name || '',
+        price: data.offers.price ? `${data.offers.price} ${data.offers.priceCurrency}` : '',
+        imageUrls: data.image ? (Array.isArray(data.image) ? data.image : [data.image]) : [],
+        description: data.description || '',
+        details: detailsFromJsonLd(data),
+      };
+    } catch {
+      return null;
+    }
+  }],
+
+  ['meta', ($) => {
+    const ogTitle = $('meta[property="og:title"]').attr('content');
+    const ogPrice = $('meta[property="product:price:amount"]').attr('content');
+    const ogImage = $('meta[property="og:image"]').attr('content');
+    if (!ogTitle && !ogPrice) return null;
+    return {
+      title: ogTitle || '',
+      price: ogPrice || '',
+      imageUrls: ogImage ? [ogImage] : [],
+      description: $('meta[name="description"]').attr('content') || '',
+    };
+  }],
+];
+
+/**
+ * Extract a single listing from an item page. `listingUrl` is the page's
+ * final URL (after redirects). Falls back to scraping the rendered DOM, so
+ * this always returns something; check `strategy` to see how it was found.
+ */
+export function parseVintedListing(html: string, listingUrl: string, domain: VintedDomain): VintedListingParseResult {
+  const $ = load(html);
+  const listingId = listingIdFromUrl(listingUrl) ?? 'unknown';
+
+  for (const [strategy, extract] of LISTING_STRATEGIES) {
+    const fields = extract($);
+    if (fields?.title) {
+      return { listing: withParsedPrice({ listingId, ...fields, listingUrl }, domain), strategy };
+    }
+  }
+
+  // Item details table: <div data-testid="item-attributes-brand"> ... <div class="details-list__item-value">
+  const attribute = (name: string) =>
+    $(`[data-testid="item-attributes-${name}"] .details-list__item-value`).first().text().trim();
+
+  const fields: ListingFields = {
+    title: $('h1').first().text().trim() || 'Untitled',
+    price: $('.price, .price-box__price, [data-testid="price"], .item-price').first().text().trim() || 'Price not available',
+    imageUrls: $('img[src*="vinted"], img[data-src*="vinted"], .gallery img')
+      .map((_, img) => $(img).attr('src') || $(img).attr('data-src'))
+      .get()
+      .filter(Boolean),
+    description: $('.item-description, .description, [data-testid="description"], .item-details').first().text().trim(),
+    details: compactDetails({
+      brand: attribute('brand'),
+      condition: attribute('status'),
+      size: attribute('size'),
+      favouriteCount: toCount($('[data-testid="favourite-count"]').first().text().trim() || undefined),
+      viewCount: toCount(attribute('view_count') || undefined),
+    }),
+  };
+  return { listing: withParsedPrice({ listingId, ...fields, listingUrl }, domain), strategy: 'dom' };
+}
@@ -1,5 +1,9 @@
-import puppeteer, { Browser, Page, HTTPResponse } from 'puppeteer';
+import type { Page, HTTPResponse } from 'puppeteer';
 import { cookieManager } from '../utils/cookie-manager';
+import { browserPool } from '../utils/browser-pool';
+import { parseVintedSearch, parseVintedListing, type VintedListing, type VintedSearchStrategy, type VintedListingStrategy } from './vinted-parser';
+import { getVintedDomain, vintedOrigin, VINTED_DOMAINS, DEFAULT_VINTED_DOMAIN, type VintedDomain } from '@shared/vinted-domains';
+import { collectSearchPages, type SearchOptions } from './search-pagination';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -11,7 +15,8 @@ const USER_AGENTS = [
   'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
 ];
 
-let lastSessionRefresh = 0;
+// Session checks are tracked per Vinted domain (host -> last check)
+const lastSessionRefresh = new Map<string, number>();
 const SESSION_REFRESH_INTERVAL = 30 * 60 * 1000; // 30 minutes
 
 function getRandomUserAgent(): string {
@@ -22,39 +27,43 @@ function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function checkSessionRefresh(): Promise<boolean> {
+// Domain of a URL, falling back to the default site for unknown hosts
+function resolveDomain(url: string): VintedDomain {
+  return getVintedDomain(url) ?? VINTED_DOMAINS[DEFAULT_VINTED_DOMAIN];
+}
+
+async function checkSessionRefresh(domain: VintedDomain): Promise<boolean> {
   const now = Date.now();
-  if (now - lastSessionRefresh > SESSION_REFRESH_INTERVAL) {
-    console.log("🔄 Session refresh needed, checking session health...");
+  if (now - (lastSessionRefresh.get(domain.host) ?? 0) > SESSION_REFRESH_INTERVAL) {
+    console.log(`🔄 Session refresh needed, checking session health on ${domain.host}...`);
+    lastSessionRefresh.set(domain.host, now);
     try {
       // Simple session check by accessing a Vinted page
-      const testResponse = await fetch('https://www.vinted.com/catalog', {
+      const testResponse = await fetch(`${vintedOrigin(domain)}/catalog`, {
         method: 'HEAD',
         headers: {
           'User-Agent': getRandomUserAgent(),
-          'Cookie': (await cookieManager.loadCookies()).map(c => `${c.name}=${c.value}`).join('; ')
+          'Accept-Language': domain.acceptLanguage,
+          'Cookie': (await cookieManager.loadCookies(domain)).map(c => `${c.name}=${c.value}`).join('; ')
         }
       });
       
       if (testResponse.status === 403 || testResponse.status === 429) {
-        console.log("⚠️ Session may be expired or rate-limited");
-        lastSessionRefresh = now;
+        console.log(`⚠️ Session on ${domain.host} may be expired or rate-limited`);
         return false;
       }
       
-      console.log("✅ Session health check passed");
-      lastSessionRefresh = now;
+      console.log(`✅ Session health check passed on ${domain.host}`);
       return true;
     } catch (error) {
-      console.warn("⚠️ Session health check failed:", error.message);
-      lastSessionRefresh = now;
+      console.warn(`⚠️ Session health check failed on ${domain.host}:`, error.message);
       return false;
     }
   }
   return true;
 }
 
-async function validateRegionCookies(page: Page): Promise<boolean> {
+async function validateRegionCookies(page: Page, domain: VintedDomain): Promise<boolean> {
   try {
     // Check if we're getting location popups or regional restrictions
     const hasLocationPopup = await page.evaluate(() => {
@@ -64,7 +73,7 @@ async function validateRegionCookies(page: Page): Promise<boolean> {
     
     if (hasLocationPopup) {
       console.log("🌍 Location popup detected, setting region cookies...");
-      const regionCookies = cookieManager.getRegionCookies();
+      const regionCookies = cookieManager.getRegionCookies(domain);
       for (const cookie of regionCookies) {
         await page.setCookie(cookie);
       }
@@ -77,7 +86,7 @@ async function validateRegionCookies(page: Page): Promise<boolean> {
   }
 }
 
-async function handle403Recovery(page: Page, url: string): Promise<boolean> {
+async function handle403Recovery(page: Page, url: string, domain: VintedDomain): Promise<boolean> {
   console.log("🚫 403 Forbidden detected, attempting recovery...");
   
   try {
@@ -91,7 +100,7 @@ async function handle403Recovery(page: Page, url: string): Promise<boolean> {
     await delay(5000 + Math.random() * 5000);
     
     // Reload with fresh session
-    await page.goto('https://www.vinted.com', { waitUntil: 'domcontentloaded', timeout: 10000 });
+    await page.goto(vintedOrigin(domain), { waitUntil: 'domcontentloaded', timeout: 10000 });
     
     // Reload the original URL
     await page.goto(url, { waitUntil: 'networkidle2', timeout: 15000 });
@@ -111,11 +120,11 @@ async function handle403Recovery(page: Page, url: string): Promise<boolean> {
 }
 
 // Enhanced retry logic with anti-blocking strategies
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 4): Promise<T> {
+async function withRetry<T>(fn: () => Promise<T>, domain: VintedDomain, maxRetries = 4): Promise<T> {
   for (let i = 0; i < maxRetries; i++) {
     try {
       // Check session health before each attempt
-      const sessionHealthy = await checkSessionRefresh();
+      const sessionHealthy = await checkSessionRefresh(domain);
       if (!sessionHealthy && i > 0) {
         console.log("⚠️ Session may be compromised, extending delay");
         await delay(30000 + Math.random() * 30000);
@@ -151,39 +160,29 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 4): Promise<T> {
   throw new Error('Max retries exceeded');
 }
 
-export interface VintedListing {
-  listingId: string;
-  title: string;
-  price: string;
-  imageUrls: string[];
-  listingUrl: string;
-  description?: string;
+export type { VintedListing };
+
+export interface VintedSearchResult {
+  listings: VintedListing[];
+  strategy: VintedSearchStrategy | null;
+  pageHtml: string; // The rendered (first) search page, for drift alerts and snapshots
+  pagesScanned: number;
+  firstPageListingCount: number; // Leading listings that are on pageHtml
 }
 
-async function createBrowser(): Promise<Browser> {
-  return await puppeteer.launch({
-    headless: true,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-accelerated-2d-canvas',
-      '--no-first-run',
-      '--no-zygote',
-      '--single-process',
-      '--disable-gpu'
-    ]
-  });
+export interface VintedListingResult {
+  listing: VintedListing;
+  strategy: VintedListingStrategy;
+  pageHtml: string;
 }
 
-async function setupPage(browser: Browser): Promise<Page> {
-  const page = await browser.newPage();
-  
+// Prepare a pooled page (fresh browser context) for scraping the given domain
+async function setupPage(page: Page, domain: VintedDomain): Promise<Page> {
   // Enhanced user agent and headers
   await page.setUserAgent(getRandomUserAgent());
   await page.setExtraHTTPHeaders({
     'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-    'Accept-Language': 'en-US,en;q=0.9,nl;q=0.8,fr;q=0.7,de;q=0.6',
+    'Accept-Language': domain.acceptLanguage,
     'Accept-Encoding': 'gzip, deflate, br',
     'Connection': 'keep-alive',
     'Upgrade-Insecure-Requests': '1',
@@ -197,7 +196,7 @@ async function setupPage(browser: Browser): Promise<Page> {
   await page.setViewport({ width: 1366, height: 768 });
 
   // Load persistent session cookies if available
-  const sessionCookies = await cookieManager.loadCookies();
+  const sessionCookies = await cookieManager.loadCookies(domain);
   if (sessionCookies.length > 0) {
     await page.setCookie(...sessionCookies);
     console.log(`🔐 Loaded ${sessionCookies.length} session cookies`);
@@ -206,7 +205,7 @@ async function setupPage(browser: Browser): Promise<Page> {
   }
 
   // Set region cookies to prevent location popups
-  const regionCookies = cookieManager.getRegionCookies();
+  const regionCookies = cookieManager.getRegionCookies(domain);
   for (const cookie of regionCookies) {
     try {
       await page.setCookie(cookie);
@@ -249,253 +248,92 @@ async function setupPage(browser: Browser): Promise<Page> {
   return page;
 }
 
-export async function scrapeVintedSearch(searchUrl: string): Promise<VintedListing[]> {
-  console.log(`🔍 Scraping Vinted search: ${searchUrl}`);
+// Catalog URL of a result page; Vinted paginates with the `page` query parameter
+export function vintedSearchPageUrl(searchUrl: string, page: number): string {
+  const url = new URL(searchUrl);
+  if (page > 1) {
+    url.searchParams.set('page', String(page));
+  } else {
+    url.searchParams.delete('page');
+  }
+  return url.toString();
+}
+
+/**
+ * Scrape a Vinted catalog search, following its result pages up to
+ * `options.maxPages`. The domain (cookies, language, currency, listing
+ * links) comes from the search URL unless the caller passes it.
+ */
+export async function scrapeVintedSearch(
+  searchUrl: string,
+  options: SearchOptions = {},
+  domain: VintedDomain = resolveDomain(searchUrl)
+): Promise<VintedSearchResult> {
+  return collectSearchPages(options, page => scrapeVintedSearchPage(vintedSearchPageUrl(searchUrl, page), domain));
+}
+
+async function scrapeVintedSearchPage(searchUrl: string, domain: VintedDomain): Promise<Omit<VintedSearchResult, 'pagesScanned' | 'firstPageListingCount'>> {
+  console.log(`🔍 Scraping Vinted search (${domain.host}): ${searchUrl}`);
 
   return await withRetry(async () => {
-    let browser: Browser | null = null;
-    try {
-      // Human-like initial delay
-      await delay(3000 + Math.random() * 4000);
+    // Human-like initial delay
+    await delay(3000 + Math.random() * 4000);
 
-      browser = await createBrowser();
-      const page = await setupPage(browser);
+    return await browserPool.withPage(async (page) => {
+      await setupPage(page, domain);
 
       // Validate region cookies first
-      await validateRegionCookies(page);
+      await validateRegionCookies(page, domain);
 
       await page.goto(searchUrl, { waitUntil: 'networkidle2', timeout: 20000 });
 
       // Check for 403 error page
       const title = await page.title();
       if (title.includes('403') || title.includes('Access Denied')) {
-        const recovered = await handle403Recovery(page, searchUrl);
+        const recovered = await handle403Recovery(page, searchUrl, domain);
         if (!recovered) {
           throw new Error('403 Forbidden - unable to recover session');
         }
       }
 
-      // Extract listings data with enhanced parsing
-      const listings = await page.evaluate(() => {
-        const results: any[] = [];
-
-        // Enhanced catalog parsing with multiple fallbacks
-        const scripts = document.querySelectorAll('script');
-        for (const script of scripts) {
-          const content = script.textContent || '';
-          
-          // Try different patterns for catalog items
-          const patterns = [
-            /"catalog_items"\s*:\s*(\[[\s\S]*?\])/,
-            /"items"\s*:\s*(\[[\s\S]*?\])/,
-            /__INITIAL_DATA__.*?"items"\s*:\s*(\[[\s\S]*?\])/
-          ];
-          
-          for (const pattern of patterns) {
-            try {
-              const match = content.match(pattern);
-              if (match) {
-                const items = JSON.parse(match[1]);
-                for (const item of items) {
-                  if (item.id && item.title) {
-                    results.push({
-                      listingId: item.id.toString(),
-                      title: item.title.trim(),
-                      price: item.price ? (item.price.amount ? `€${item.price.amount}` : `€${item.price}`) : 'Price not available',
-                      imageUrls: item.photos?.map((p: any) => p.url || p.full_size_url || p.url_template).filter(Boolean) || [],
-                      listingUrl: item.url || `https://www.vinted.com/items/${item.id}`,
-                      description: item.description || ''
-                    });
-                  }
-                }
-                break; // Stop after first successful parse
-              }
-            } catch (e) {
-              console.warn('Pattern match failed:', e);
-            }
-          }
-        }
-
-        // Fallback: Parse from DOM if script parsing fails
-        if (results.length === 0) {
-          const itemElements = document.querySelectorAll('[data-testid*="item"], .catalog-grid .item, .items-grid .item');
-          itemElements.forEach((element) => {
-            const title = element.querySelector('h3, h4, .item-title')?.textContent?.trim();
-            const priceElement = element.querySelector('.price, .item-price');
-            const price = priceElement?.textContent?.trim();
-            const link = element.querySelector('a[href*="/items/"]')?.getAttribute('href');
-            const images = element.querySelectorAll('img');
-            const imageUrls = Array.from(images).map(img => (img as HTMLImageElement).src).filter(Boolean);
-            
-            if (title && link) {
-              const listingId = link.match(/\/items\/(\d+)/)?.[1];
-              if (listingId) {
-                results.push({
-                  listingId,
-                  title,
-                  price: price || 'Price not available',
-                  imageUrls,
-                  listingUrl: link.startsWith('http') ? link : `https://www.vinted.com${link}`,
-                  description: ''
-                });
-              }
-            }
-          });
-        }
+      // Extraction strategies live in vinted-parser.ts (checked offline against fixtures)
+      const pageHtml = await page.content();
+      const { listings, strategy } = parseVintedSearch(pageHtml, domain);
 
-        return results;
-      });
-
-      console.log(`✅ Found ${listings.length} listings from Vinted search`);
-      return listings;
-    } finally {
-      if (browser) {
-        await browser.close();
-      }
-    }
-  });
+      console.log(`✅ Found ${listings.length} listings from Vinted search${strategy ? ` (${strategy})` : ''}`);
+      return { listings, strategy, pageHtml };
+    });
+  }, domain);
 }
 
-export async function scrapeVintedListing(listingUrl: string): Promise<VintedListing | null> {
+export async function scrapeVintedListing(listingUrl: string): Promise<VintedListingResult> {
   console.log(`🔍 Scraping single Vinted listing: ${listingUrl}`);
+  const domain = resolveDomain(listingUrl);
   
   return await withRetry(async () => {
-    let browser: Browser | null = null;
-    try {
-      // Human-like delay before individual listing
-      await delay(2000 + Math.random() * 3000);
-      
-      browser = await createBrowser();
-      const page = await setupPage(browser);
+    // Human-like delay before individual listing
+    await delay(2000 + Math.random() * 3000);
+
+    return await browserPool.withPage(async (page) => {
+      await setupPage(page, domain);
 
       await page.goto(listingUrl, { waitUntil: 'networkidle2', timeout: 20000 });
       
       // Check for 403 on individual listing
       const title = await page.title();
       if (title.includes('403') || title.includes('Access Denied')) {
-        const recovered = await handle403Recovery(page, listingUrl);
+        const recovered = await handle403Recovery(page, listingUrl, domain);
         if (!recovered) {
           throw new Error('403 Forbidden - unable to access listing');
         }
       }
       
-      // Enhanced data extraction with multiple fallbacks
-      const data = await page.evaluate(() => {
-        const url = window.location.href;
-        const listingIdMatch = url.match(/\/items\/(\d+)/);
-        const listingId = listingIdMatch ? listingIdMatch[1] : 'unknown';
-
-        let title = '';
-        let price = '';
-        let imageUrls: string[] = [];
-        let description = '';
-
-        // Multiple extraction strategies
-        const extractionStrategies = [
-          // Strategy 1: __INITIAL_DATA__
-          () => {
-            const scripts = document.querySelectorAll('script');
-            for (const script of scripts) {
-              const content = script.textContent || '';
-              if (content.includes('__INITIAL_DATA__')) {
-                try {
-                  const match = content.match(/window\.__INITIAL_DATA__\s*=\s*(\{.*?\});/s);
-                  if (match) {
-                    const jsonData = JSON.parse(match[1]);
-                    if (jsonData.item && jsonData.item.item) {
-                      const item = jsonData.item.item;
-                      return {
-                        title: item.title || '',
-                        price: item.price ? `${item.price.amount} ${item.price.currency}` : '',
-                        imageUrls: item.photos?.map((p: any) => p.url || p.full_size_url).filter(Boolean) || [],
-                        description: item.description || ''
-                      };
-                    }
-                  }
-                } catch (e) {
-                  console.warn('__INITIAL_DATA__ parsing failed:', e);
-                }
-              }
-            }
-            return null;
-          },
-          
-          // Strategy 2: JSON-LD structured data
-          () => {
-            const jsonLd = document.querySelector('script[type="application/ld+json"]');
-            if (jsonLd) {
-              try {
-                const data = JSON.parse(jsonLd.textContent || '');
-                if (data.offers) {
-                  return {
-                    title: data.name || '',
-                    price: data.offers.price ? `${data.offers.price} ${data.offers.priceCurrency}` : '',
-                    imageUrls: data.image ? (Array.isArray(data.image) ? data.image : [data.image]) : [],
-                    description: data.description || ''
-                  };
-                }
-              } catch (e) {
-                console.warn('JSON-LD parsing failed:', e);
-              }
-            }
-            return null;
-          },
-          
-          // Strategy 3: Meta tags
-          () => {
-            const ogTitle = document.querySelector('meta[property="og:title"]')?.getAttribute('content');
-            const ogPrice = document.querySelector('meta[property="product:price:amount"]')?.getAttribute('content');
-            const ogImage = document.querySelector('meta[property="og:image"]')?.getAttribute('content');
-            const description = document.querySelector('meta[name="description"]')?.getAttribute('content');
-            
-            if (ogTitle || ogPrice) {
-              return {
-                title: ogTitle || '',
-                price: ogPrice ? `€${ogPrice}` : '',
-                imageUrls: ogImage ? [ogImage] : [],
-                description: description || ''
-              };
-            }
-            return null;
-          }
-        ];
-
-        // Try each strategy
-        for (const strategy of extractionStrategies) {
-          try {
-            const result = strategy();
-            if (result && result.title) {
-              return { listingId, ...result, listingUrl: url };
-            }
-          } catch (e) {
-            console.warn('Extraction strategy failed:', e);
-          }
-        }
-
-        // Fallback: DOM scraping
-        title = document.querySelector('h1')?.textContent?.trim() || 'Untitled';
-        price = document.querySelector('.price, .price-box__price, [data-testid="price"], .item-price')?.textContent?.trim() || 'Price not available';
-        imageUrls = Array.from(document.querySelectorAll('img[src*="vinted"], img[data-src*="vinted"], .gallery img'))
-          .map(img => ((img as HTMLImageElement).src || (img as HTMLImageElement).dataset.src) as string)
-          .filter(Boolean);
-        description = document.querySelector('.item-description, .description, [data-testid="description"], .item-details')?.textContent?.trim() || '';
-
-        return {
-          listingId,
-          title,
-          price,
-          imageUrls,
-          description,
-          listingUrl: url
-        };
-      });
+      // Extraction strategies live in vinted-parser.ts (checked offline against fixtures)
+      const pageHtml = await page.content();
+      const { listing, strategy } = parseVintedListing(pageHtml, page.url(), domain);
 
-      console.log(`✅ Successfully extracted listing data: ${data.title.substring(0, 50)}...`);
-      return data;
-    } finally {
-      if (browser) {
-        await browser.close();
-      }
-    }
-  });
+      console.log(`✅ Successfully extracted listing data (${strategy}): ${listing.title.substring(0, 50)}...`);
+      return { listing, strategy, pageHtml };
+    });
+  }, domain);
 }
\ No newline at end of file
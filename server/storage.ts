@@ -1,19 +1,62 @@
-import { eq, desc, lt, and } from "drizzle-orm";
+import { eq, desc, asc, lt, lte, gt, gte, and, or, ilike, inArray, notInArray, notExists, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { db } from "./db";
 import {
   searchQueries,
   analyzedListings,
   findings,
+  findingStatusHistory,
   manualScans,
+  scanRuns,
+  jobs,
+  aiUsage,
+  purchases,
+  scraperAlerts,
+  pageSnapshots,
+  filteredListings,
+  metalPrices,
+  RETAINED_FINDING_STATUSES,
   type SearchQuery,
   type InsertSearchQuery,
   type AnalyzedListing,
   type InsertAnalyzedListing,
+  type ReviewStatus,
   type Finding,
   type InsertFinding,
+  type FindingStatus,
+  type FindingStatusHistory,
   type ManualScan,
   type InsertManualScan,
+  type ScanRun,
+  type InsertScanRun,
+  type Job,
+  type InsertJob,
+  type JobType,
+  type AiUsage,
+  type InsertAiUsage,
+  type AiSpend,
+  type Purchase,
+  type InsertPurchase,
+  type ScraperAlert,
+  type InsertScraperAlert,
+  type ScraperAlertKind,
+  type ScraperAlertSummary,
+  type PageSnapshot,
+  type InsertPageSnapshot,
+  type PageSnapshotKind,
+  type PageSnapshotSummary,
+  type FilteredListing,
+  type InsertFilteredListing,
+  type FilterRule,
+  type FilterRules,
+  type MetalPrice,
+  type InsertMetalPrice,
+  type FindingsQuery,
+  type FindingsPage,
+  type FindingSort,
 } from "../shared/schema";
+import { getVintedDomain } from "../shared/vinted-domains";
+import { detectMarketplaceSource } from "../shared/marketplaces";
 
 export interface IStorage {
   // Search Queries
@@ -23,23 +66,150 @@ export interface IStorage {
   updateSearchQuery(id: string, query: Partial<InsertSearchQuery>): Promise<SearchQuery | undefined>;
   deleteSearchQuery(id: string): Promise<boolean>;
   updateLastScanned(id: string): Promise<void>;
+  backfillVintedDomains(): Promise<number>;
 
   // Analyzed Listings
   getAnalyzedListing(listingId: string): Promise<AnalyzedListing | undefined>;
+  getAnalyzedListingIds(listingIds: string[]): Promise<string[]>;
   createAnalyzedListing(listing: InsertAnalyzedListing): Promise<AnalyzedListing>;
+  getAnalyzedListings(filters?: AnalyzedListingFilters): Promise<AnalyzedListing[]>;
+  getAnalyzedListingById(id: string): Promise<AnalyzedListing | undefined>;
+  getReviewQueue(limit?: number): Promise<AnalyzedListing[]>;
+  getTriageCountsSince(since: Date): Promise<{ decision: string; listings: number; finds: number }[]>;
+  setReviewStatus(id: string, status: ReviewStatus): Promise<AnalyzedListing | undefined>;
 
   // Findings
-  getFindings(): Promise<Finding[]>;
+  queryFindings(query: FindingsQuery): Promise<FindingsPage | undefined>;
   getFinding(id: string): Promise<Finding | undefined>;
-  getFindingByListingUrl(listingUrl: string): Promise<Finding | undefined>;
+  getFindingByListingId(listingId: string): Promise<Finding | undefined>;
   createFinding(finding: InsertFinding): Promise<Finding>;
   deleteFinding(id: string): Promise<boolean>;
   deleteExpiredFindings(): Promise<void>;
+  markTelegramSent(id: string): Promise<void>;
+  updateFindingStatus(id: string, status: FindingStatus, change: { changedBy?: string | null; note?: string | null }): Promise<Finding | undefined>;
+  getFindingStatusHistory(findingId: string): Promise<FindingStatusHistory[]>;
 
   // Manual Scans
   getManualScans(): Promise<ManualScan[]>;
   createManualScan(scan: InsertManualScan): Promise<ManualScan>;
   deleteManualScan(id: string): Promise<boolean>;
+
+  // Scan Runs
+  getScanRuns(searchQueryId: string, limit?: number): Promise<ScanRun[]>;
+  createScanRun(run: InsertScanRun): Promise<ScanRun>;
+  deleteScanRun(id: string): Promise<void>;
+  getScanRun(id: string): Promise<ScanRun | undefined>;
+  updateScanRun(id: string, updates: Partial<ScanRun>): Promise<ScanRun | undefined>;
+  incrementScanRunStats(id: string, counts: ScanRunCounters): Promise<void>;
+
+  // Job Queue
+  createJob(job: InsertJob): Promise<Job | undefined>;
+  leaseJob(type: JobType, workerId: string, leaseMs: number): Promise<Job | undefined>;
+  renewJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  completeJob(id: string, workerId: string): Promise<boolean>;
+  retryJob(id: string, workerId: string, runAt: Date, error: string): Promise<boolean>;
+  deadLetterJob(id: string, workerId: string, error: string): Promise<boolean>;
+  reapExpiredJobs(): Promise<Job[]>;
+  requeueJob(id: string): Promise<Job | undefined>;
+  hasOpenJob(dedupeKey: string): Promise<boolean>;
+  countOpenJobsForRun(scanRunId: string): Promise<number>;
+  getJobs(status?: string, limit?: number): Promise<Job[]>;
+  getJobStats(): Promise<{ type: string; status: string; count: number }[]>;
+  deferJob(id: string, workerId: string, runAt: Date, reason: string): Promise<boolean>;
+
+  // AI Usage
+  createAiUsage(usage: InsertAiUsage): Promise<AiUsage>;
+  getAiSpendSince(since: Date): Promise<AiSpend>;
+  getAiSpendBySearchSince(since: Date): Promise<{ searchQueryId: string | null; calls: number; costUsd: number }[]>;
+  countFindingsBySearchSince(since: Date): Promise<{ searchQueryId: string | null; count: number }[]>;
+
+  // Purchases
+  getPurchases(): Promise<Purchase[]>;
+  getPurchase(id: string): Promise<Purchase | undefined>;
+  createPurchase(purchase: InsertPurchase): Promise<Purchase>;
+  updatePurchase(id: string, updates: Partial<InsertPurchase>): Promise<Purchase | undefined>;
+  deletePurchase(id: string): Promise<boolean>;
+
+  // Scraper Alerts
+  createScraperAlert(alert: InsertScraperAlert): Promise<ScraperAlert>;
+  getScraperAlert(id: string): Promise<ScraperAlert | undefined>;
+  getOpenScraperAlerts(): Promise<ScraperAlertSummary[]>;
+  findOpenScraperAlert(searchQueryId: string, kind: ScraperAlertKind): Promise<ScraperAlert | undefined>;
+  resolveScraperAlert(id: string): Promise<ScraperAlert | undefined>;
+  resolveScraperAlertsForSearch(searchQueryId: string): Promise<number>;
+
+  // Page Snapshots
+  createPageSnapshot(snapshot: InsertPageSnapshot): Promise<PageSnapshot>;
+  getPageSnapshot(id: string): Promise<PageSnapshot | undefined>;
+  getPageSnapshots(filters?: PageSnapshotFilters): Promise<PageSnapshotSummary[]>;
+  deletePageSnapshotsBefore(cutoff: Date): Promise<number>;
+
+  // Filtered Listings
+  recordFilteredListing(listing: InsertFilteredListing): Promise<FilteredListing>;
+  getFilteredListings(filters?: FilteredListingFilters): Promise<FilteredListing[]>;
+  getFilteredListingIds(searchQueryId: string, listingIds: string[]): Promise<string[]>;
+  getFilterRuleCounts(searchQueryId?: string): Promise<{ rule: string; count: number }[]>;
+
+  // Metal Prices
+  getMetalPrices(): Promise<MetalPrice[]>;
+  upsertMetalPrice(price: InsertMetalPrice): Promise<MetalPrice>;
+}
+
+export type ScanRunCounters = Partial<Pick<ScanRun,
+  'listingsScraped' | 'skippedDuplicates' | 'filteredOut' | 'enriched' | 'triagedOut' | 'analyzed' | 'findingsCreated' | 'alertsSent' | 'aiErrors'
+>>;
+
+// Also accepts aliases of the findings table
+type FindingsTable = { price: AnyPgColumn; priceBase: AnyPgColumn; confidenceScore: AnyPgColumn; foundAt: AnyPgColumn };
+
+// Price in the base currency. Rows from before price normalization fall back to
+// the number in the free-text price ("€12,50" -> 12.50), or 0 when there is none.
+function findingPriceSql(table: FindingsTable): SQL {
+  return sql`COALESCE(${table.priceBase}, substring(replace(${table.price}, ',', '.') from '[0-9]+(?:\\.[0-9]+)?')::numeric, 0)`;
+}
+
+function findingSortSql(table: FindingsTable, sort: FindingSort): SQL {
+  switch (sort) {
+    case 'confidence': return sql`${table.confidenceScore}`;
+    case 'price': return findingPriceSql(table);
+    default: return sql`${table.foundAt}`;
+  }
+}
+
+// A running job still leased by this worker
+function heldLease(id: string, workerId: string): SQL {
+  return and(eq(jobs.id, id), eq(jobs.status, 'running'), eq(jobs.leaseOwner, workerId))!;
+}
+
+// Filter rules as a comparable string; jsonb doesn't keep key order
+function filterRulesKey(rules: FilterRules | null | undefined): string {
+  return JSON.stringify(Object.entries(rules ?? {}).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Match `%` and `_` in user input literally (backslash is the default LIKE escape)
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+export interface AnalyzedListingFilters {
+  searchQueryId?: string;
+  minScore?: number;
+  maxScore?: number;
+  isValuable?: boolean;
+  limit?: number;
+}
+
+export interface FilteredListingFilters {
+  searchQueryId?: string;
+  rule?: FilterRule;
+  limit?: number;
+}
+
+export interface PageSnapshotFilters {
+  searchQueryId?: string;
+  listingId?: string; // Snapshots the listing was extracted from
+  kind?: PageSnapshotKind;
+  limit?: number;
 }
 
 export class PostgresStorage implements IStorage {
@@ -56,17 +226,42 @@ export class PostgresStorage implements IStorage {
   async createSearchQuery(insertQuery: InsertSearchQuery): Promise<SearchQuery> {
     const results = await db.insert(searchQueries).values({
       vintedUrl: insertQuery.vintedUrl,
+      source: detectMarketplaceSource(insertQuery.vintedUrl) ?? 'vinted',
+      vintedDomain: getVintedDomain(insertQuery.vintedUrl)?.host ?? null,
       searchLabel: insertQuery.searchLabel,
       scanFrequencyHours: insertQuery.scanFrequencyHours ?? 3,
       confidenceThreshold: insertQuery.confidenceThreshold ?? 70,
+      scanJitterMinutes: insertQuery.scanJitterMinutes ?? 15,
+      nearMissMinScore: insertQuery.nearMissMinScore ?? 50,
+      analyzerProvider: insertQuery.analyzerProvider ?? null,
+      enrichmentMode: insertQuery.enrichmentMode ?? null,
+      maxPages: insertQuery.maxPages ?? 1,
+      maxListingAgeHours: insertQuery.maxListingAgeHours ?? null,
+      filterRules: insertQuery.filterRules ?? null,
+      triageMinScore: insertQuery.triageMinScore ?? null,
+      minMeltValuePercent: insertQuery.minMeltValuePercent ?? null,
       isActive: insertQuery.isActive ?? true,
     }).returning();
     return results[0];
   }
 
   async updateSearchQuery(id: string, updates: Partial<InsertSearchQuery>): Promise<SearchQuery | undefined> {
+    // Listings rejected under the old rules are skipped by later scans; changed rules get to check them again
+    if (updates.filterRules !== undefined) {
+      const current = await this.getSearchQuery(id);
+      if (current && filterRulesKey(current.filterRules) !== filterRulesKey(updates.filterRules)) {
+        await db.delete(filteredListings).where(eq(filteredListings.searchQueryId, id));
+      }
+    }
+
     const results = await db.update(searchQueries)
-      .set(updates)
+      .set(updates.vintedUrl
+        ? {
+            ...updates,
+            source: detectMarketplaceSource(updates.vintedUrl) ?? 'vinted',
+            vintedDomain: getVintedDomain(updates.vintedUrl)?.host ?? null,
+          }
+        : updates)
       .where(eq(searchQueries.id, id))
       .returning();
     return results[0];
@@ -83,12 +278,40 @@ export class PostgresStorage implements IStorage {
       .where(eq(searchQueries.id, id));
   }
 
+  /**
+   * Re-derive vintedDomain from vintedUrl where they disagree. Searches that
+   * existed before the column was added were all stamped with its old
+   * "vinted.nl" default, whatever country their URL is on. Returns how many
+   * searches were corrected.
+   */
+  async backfillVintedDomains(): Promise<number> {
+    const rows = await db.select({ id: searchQueries.id, vintedUrl: searchQueries.vintedUrl, vintedDomain: searchQueries.vintedDomain })
+      .from(searchQueries);
+    let corrected = 0;
+    for (const row of rows) {
+      const vintedDomain = getVintedDomain(row.vintedUrl)?.host ?? null;
+      if (vintedDomain === row.vintedDomain) continue;
+      await db.update(searchQueries).set({ vintedDomain }).where(eq(searchQueries.id, row.id));
+      corrected++;
+    }
+    return corrected;
+  }
+
   // Analyzed Listings
   async getAnalyzedListing(listingId: string): Promise<AnalyzedListing | undefined> {
     const results = await db.select().from(analyzedListings).where(eq(analyzedListings.listingId, listingId));
     return results[0];
   }
 
+  // Which of the given listings have been analyzed before
+  async getAnalyzedListingIds(listingIds: string[]): Promise<string[]> {
+    if (listingIds.length === 0) return [];
+    const results = await db.select({ listingId: analyzedListings.listingId })
+      .from(analyzedListings)
+      .where(inArray(analyzedListings.listingId, listingIds));
+    return results.map(row => row.listingId);
+  }
+
   async createAnalyzedListing(insertListing: InsertAnalyzedListing): Promise<AnalyzedListing> {
     const results = await db.insert(analyzedListings).values({
       listingId: insertListing.listingId,
@@ -96,17 +319,125 @@ export class PostgresStorage implements IStorage {
       confidenceScore: insertListing.confidenceScore,
       isValuable: insertListing.isValuable,
       lotType: insertListing.lotType ?? 'single',
+      listingUrl: insertListing.listingUrl ?? null,
+      listingTitle: insertListing.listingTitle ?? null,
+      price: insertListing.price ?? null,
+      description: insertListing.description ?? null,
+      imageUrls: insertListing.imageUrls ?? null,
+      details: insertListing.details ?? null,
+      enrichment: insertListing.enrichment ?? null,
+      tags: insertListing.tags ?? null,
+      detectedHallmarks: insertListing.detectedHallmarks ?? null,
+      meltEstimate: insertListing.meltEstimate ?? null,
+      triageScore: insertListing.triageScore ?? null,
+      triageDecision: insertListing.triageDecision ?? null,
+      triageResult: insertListing.triageResult ?? null,
+      mainMaterialGuess: insertListing.mainMaterialGuess ?? null,
+      reasons: insertListing.reasons ?? null,
+      analysisResult: insertListing.analysisResult ?? null,
+      analyzerProvider: insertListing.analyzerProvider ?? null,
+      analyzerModel: insertListing.analyzerModel ?? null,
+      reviewStatus: insertListing.reviewStatus ?? null,
     }).returning();
     return results[0];
   }
 
-  // Findings
-  async getFindings(): Promise<Finding[]> {
-    const now = new Date();
+  async getAnalyzedListings(filters: AnalyzedListingFilters = {}): Promise<AnalyzedListing[]> {
+    const conditions = [];
+    if (filters.searchQueryId) conditions.push(eq(analyzedListings.searchQueryId, filters.searchQueryId));
+    if (filters.minScore !== undefined) conditions.push(gte(analyzedListings.confidenceScore, filters.minScore));
+    if (filters.maxScore !== undefined) conditions.push(lte(analyzedListings.confidenceScore, filters.maxScore));
+    if (filters.isValuable !== undefined) conditions.push(eq(analyzedListings.isValuable, filters.isValuable));
+
+    return await db.select()
+      .from(analyzedListings)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(analyzedListings.analyzedAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  async getAnalyzedListingById(id: string): Promise<AnalyzedListing | undefined> {
+    const results = await db.select().from(analyzedListings).where(eq(analyzedListings.id, id));
+    return results[0];
+  }
+
+  // Listings per triage decision, and how many cleared their search's alert threshold
+  async getTriageCountsSince(since: Date): Promise<{ decision: string; listings: number; finds: number }[]> {
+    const results = await db.select({
+      decision: analyzedListings.triageDecision,
+      listings: sql<number>`COUNT(*)::int`,
+      finds: sql<number>`COUNT(*) FILTER (WHERE ${analyzedListings.isValuable} AND ${analyzedListings.confidenceScore} >= COALESCE(${searchQueries.confidenceThreshold}, 70))::int`,
+    })
+      .from(analyzedListings)
+      .leftJoin(searchQueries, eq(analyzedListings.searchQueryId, searchQueries.id))
+      .where(and(gte(analyzedListings.analyzedAt, since), isNotNull(analyzedListings.triageDecision)))
+      .groupBy(analyzedListings.triageDecision);
+    return results.map(row => ({ ...row, decision: row.decision! }));
+  }
+
+  // Near misses waiting for a human decision, newest first
+  async getReviewQueue(limit = 100): Promise<AnalyzedListing[]> {
     return await db.select()
+      .from(analyzedListings)
+      .where(eq(analyzedListings.reviewStatus, 'pending'))
+      .orderBy(desc(analyzedListings.analyzedAt))
+      .limit(limit);
+  }
+
+  async setReviewStatus(id: string, status: ReviewStatus): Promise<AnalyzedListing | undefined> {
+    const results = await db.update(analyzedListings)
+      .set({ reviewStatus: status, reviewedAt: new Date() })
+      .where(eq(analyzedListings.id, id))
+      .returning();
+    return results[0];
+  }
+
+  // Findings
+  // Live findings: not yet expired, or kept forever because they were bought or sold.
+  // Undefined when the cursor's finding no longer exists (deleted or cleaned up after expiry)
+  async queryFindings(query: FindingsQuery): Promise<FindingsPage | undefined> {
+    const conditions: SQL[] = [
+      or(gt(findings.expiresAt, new Date()), inArray(findings.status, RETAINED_FINDING_STATUSES))!,
+    ];
+
+    if (query.material) conditions.push(sql`${findings.detectedMaterials} @> ${JSON.stringify([query.material])}::jsonb`);
+    if (query.minConfidence !== undefined) conditions.push(gte(findings.confidenceScore, query.minConfidence));
+    if (query.minPrice !== undefined) conditions.push(sql`${findingPriceSql(findings)} >= ${query.minPrice}`);
+    if (query.maxPrice !== undefined) conditions.push(sql`${findingPriceSql(findings)} <= ${query.maxPrice}`);
+    if (query.searchQueryId) conditions.push(eq(findings.searchQueryId, query.searchQueryId));
+    if (query.source) conditions.push(eq(findings.source, query.source));
+    if (query.status) conditions.push(eq(findings.status, query.status));
+    if (query.foundFrom) conditions.push(gte(findings.foundAt, query.foundFrom));
+    if (query.foundTo) conditions.push(lte(findings.foundAt, query.foundTo));
+    if (query.q) conditions.push(ilike(findings.listingTitle, `%${escapeLikePattern(query.q)}%`));
+
+    const sortColumn = findingSortSql(findings, query.sort);
+    const direction = query.order === 'asc' ? sql`>` : sql`<`;
+
+    // Keyset pagination: continue after the cursor row in (sort value, id) order
+    if (query.cursor) {
+      const cursorExists = await db.select({ id: findings.id }).from(findings).where(eq(findings.id, query.cursor));
+      if (cursorExists.length === 0) return undefined;
+
+      const cursorRow = alias(findings, 'cursor_finding');
+      const cursorValue = db.select({ value: findingSortSql(cursorRow, query.sort) })
+        .from(cursorRow)
+        .where(eq(cursorRow.id, query.cursor));
+      conditions.push(sql`(${sortColumn}, ${findings.id}) ${direction} ((${cursorValue}), ${query.cursor})`);
+    }
+
+    const order = query.order === 'asc' ? asc : desc;
+    const rows = await db.select()
       .from(findings)
-      .where(lt(findings.expiresAt, now))
-      .orderBy(desc(findings.foundAt));
+      .where(and(...conditions))
+      .orderBy(order(sortColumn), order(findings.id))
+      .limit(query.limit + 1);
+
+    const items = rows.slice(0, query.limit);
+    return {
+      items,
+      nextCursor: rows.length > query.limit ? items[items.length - 1].id : null,
+    };
   }
 
   async getFinding(id: string): Promise<Finding | undefined> {
@@ -114,17 +445,26 @@ export class PostgresStorage implements IStorage {
     return results[0];
   }
 
-  async getFindingByListingUrl(listingUrl: string): Promise<Finding | undefined> {
-    const results = await db.select().from(findings).where(eq(findings.listingUrl, listingUrl));
+  // By canonical listing id, so a listing found again on another country domain still matches
+  async getFindingByListingId(listingId: string): Promise<Finding | undefined> {
+    const results = await db.select().from(findings).where(eq(findings.listingId, listingId));
     return results[0];
   }
 
   async createFinding(insertFinding: InsertFinding): Promise<Finding> {
     const results = await db.insert(findings).values({
+      source: insertFinding.source ?? 'vinted',
       listingId: insertFinding.listingId,
       listingUrl: insertFinding.listingUrl,
       listingTitle: insertFinding.listingTitle,
       price: insertFinding.price,
+      priceAmount: insertFinding.priceAmount ?? null,
+      priceCurrency: insertFinding.priceCurrency ?? null,
+      priceBase: insertFinding.priceBase ?? null,
+      details: insertFinding.details ?? null,
+      tags: insertFinding.tags ?? null,
+      detectedHallmarks: insertFinding.detectedHallmarks ?? null,
+      meltEstimate: insertFinding.meltEstimate ?? null,
       confidenceScore: insertFinding.confidenceScore,
       aiReasoning: insertFinding.aiReasoning,
       detectedMaterials: insertFinding.detectedMaterials,
@@ -143,9 +483,52 @@ export class PostgresStorage implements IStorage {
     return results.length > 0;
   }
 
+  // Bought and sold findings are part of the buying pipeline and never expire
   async deleteExpiredFindings(): Promise<void> {
     const now = new Date();
-    await db.delete(findings).where(lt(findings.expiresAt, now));
+    await db.delete(findings).where(and(
+      lt(findings.expiresAt, now),
+      notInArray(findings.status, RETAINED_FINDING_STATUSES)
+    ));
+  }
+
+  async markTelegramSent(id: string): Promise<void> {
+    await db.update(findings).set({ telegramSent: true }).where(eq(findings.id, id));
+  }
+
+  async updateFindingStatus(
+    id: string,
+    status: FindingStatus,
+    change: { changedBy?: string | null; note?: string | null }
+  ): Promise<Finding | undefined> {
+    return await db.transaction(async (tx) => {
+      const current = await tx.select().from(findings).where(eq(findings.id, id)).for('update');
+      if (!current[0]) return undefined;
+
+      const now = new Date();
+      const results = await tx.update(findings)
+        .set({ status, statusChangedAt: now })
+        .where(eq(findings.id, id))
+        .returning();
+
+      await tx.insert(findingStatusHistory).values({
+        findingId: id,
+        fromStatus: current[0].status,
+        toStatus: status,
+        changedBy: change.changedBy ?? null,
+        note: change.note ?? null,
+        changedAt: now,
+      });
+
+      return results[0];
+    });
+  }
+
+  async getFindingStatusHistory(findingId: string): Promise<FindingStatusHistory[]> {
+    return await db.select()
+      .from(findingStatusHistory)
+      .where(eq(findingStatusHistory.findingId, findingId))
+      .orderBy(desc(findingStatusHistory.changedAt));
   }
 
   // Manual Scans
@@ -166,6 +549,10 @@ export class PostgresStorage implements IStorage {
       isValuable: insertScan.isValuable,
       lotType: insertScan.lotType ?? 'single',
       price: insertScan.price ?? null,
+      priceAmount: insertScan.priceAmount ?? null,
+      priceCurrency: insertScan.priceCurrency ?? null,
+      priceBase: insertScan.priceBase ?? null,
+      details: insertScan.details ?? null,
     } as any).returning();
     return results[0];
   }
@@ -174,6 +561,465 @@ export class PostgresStorage implements IStorage {
     const results = await db.delete(manualScans).where(eq(manualScans.id, id)).returning();
     return results.length > 0;
   }
+
+  // Scan Runs
+  async getScanRuns(searchQueryId: string, limit = 50): Promise<ScanRun[]> {
+    return await db.select()
+      .from(scanRuns)
+      .where(eq(scanRuns.searchQueryId, searchQueryId))
+      .orderBy(desc(scanRuns.startedAt))
+      .limit(limit);
+  }
+
+  async createScanRun(insertRun: InsertScanRun): Promise<ScanRun> {
+    const results = await db.insert(scanRuns).values({
+      searchQueryId: insertRun.searchQueryId,
+      trigger: insertRun.trigger ?? 'cron',
+      status: insertRun.status ?? 'running',
+    }).returning();
+    return results[0];
+  }
+
+  async deleteScanRun(id: string): Promise<void> {
+    await db.delete(scanRuns).where(eq(scanRuns.id, id));
+  }
+
+  async getScanRun(id: string): Promise<ScanRun | undefined> {
+    const results = await db.select().from(scanRuns).where(eq(scanRuns.id, id));
+    return results[0];
+  }
+
+  async updateScanRun(id: string, updates: Partial<ScanRun>): Promise<ScanRun | undefined> {
+    const results = await db.update(scanRuns)
+      .set(updates)
+      .where(eq(scanRuns.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async incrementScanRunStats(id: string, counts: ScanRunCounters): Promise<void> {
+    const updates: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(counts)) {
+      if (!value) continue;
+      const column = scanRuns[key as keyof ScanRunCounters];
+      updates[key] = sql`${column} + ${value}`;
+    }
+    if (Object.keys(updates).length === 0) return;
+    await db.update(scanRuns).set(updates).where(eq(scanRuns.id, id));
+  }
+
+  // Job Queue
+  // Undefined when an open job with the same dedupe key already exists
+  async createJob(insertJob: InsertJob): Promise<Job | undefined> {
+    const results = await db.insert(jobs).values({
+      type: insertJob.type,
+      payload: insertJob.payload,
+      dedupeKey: insertJob.dedupeKey ?? null,
+      searchQueryId: insertJob.searchQueryId ?? null,
+      scanRunId: insertJob.scanRunId ?? null,
+      maxAttempts: insertJob.maxAttempts ?? 5,
+      runAt: insertJob.runAt ?? new Date(),
+    }).onConflictDoNothing().returning();
+    return results[0];
+  }
+
+  /**
+   * Atomically lease the next runnable job of a type. Picks pending jobs that
+   * are due, plus running jobs whose lease expired (worker crashed or restarted).
+   * SKIP LOCKED keeps concurrent workers from leasing the same row.
+   */
+  async leaseJob(type: JobType, workerId: string, leaseMs: number): Promise<Job | undefined> {
+    const now = new Date();
+    const candidate = db.select({ id: jobs.id })
+      .from(jobs)
+      .where(and(
+        eq(jobs.type, type),
+        or(
+          and(eq(jobs.status, 'pending'), lte(jobs.runAt, now)),
+          and(eq(jobs.status, 'running'), lt(jobs.leasedUntil, now), lt(jobs.attempts, jobs.maxAttempts)),
+        ),
+      ))
+      .orderBy(asc(jobs.runAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const results = await db.update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        leasedUntil: new Date(now.getTime() + leaseMs),
+        leaseOwner: workerId,
+        updatedAt: now,
+      })
+      .where(inArray(jobs.id, candidate))
+      .returning();
+    return results[0];
+  }
+
+  // Extend a running job's lease; false once another worker has taken it over
+  async renewJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const results = await db.update(jobs)
+      .set({ leasedUntil: new Date(now.getTime() + leaseMs), updatedAt: now })
+      .where(heldLease(id, workerId))
+      .returning({ id: jobs.id });
+    return results.length > 0;
+  }
+
+  // Settling a job (complete, retry, dead-letter, defer) only counts while the worker still holds its lease:
+  // false when it expired and the job was reaped or leased by another worker
+  async completeJob(id: string, workerId: string): Promise<boolean> {
+    const now = new Date();
+    const results = await db.update(jobs)
+      .set({ status: 'completed', leasedUntil: null, completedAt: now, updatedAt: now })
+      .where(heldLease(id, workerId))
+      .returning({ id: jobs.id });
+    return results.length > 0;
+  }
+
+  async retryJob(id: string, workerId: string, runAt: Date, error: string): Promise<boolean> {
+    const results = await db.update(jobs)
+      .set({ status: 'pending', runAt, lastError: error, leasedUntil: null, leaseOwner: null, updatedAt: new Date() })
+      .where(heldLease(id, workerId))
+      .returning({ id: jobs.id });
+    return results.length > 0;
+  }
+
+  async deadLetterJob(id: string, workerId: string, error: string): Promise<boolean> {
+    const results = await db.update(jobs)
+      .set({ status: 'dead', lastError: error, leasedUntil: null, updatedAt: new Date() })
+      .where(heldLease(id, workerId))
+      .returning({ id: jobs.id });
+    return results.length > 0;
+  }
+
+  async reapExpiredJobs(): Promise<Job[]> {
+    const now = new Date();
+    return await db.update(jobs)
+      .set({ status: 'dead', lastError: 'Lease expired after final attempt', leasedUntil: null, updatedAt: now })
+      .where(and(
+        eq(jobs.status, 'running'),
+        lt(jobs.leasedUntil, now),
+        sql`${jobs.attempts} >= ${jobs.maxAttempts}`,
+      ))
+      .returning();
+  }
+
+  async requeueJob(id: string): Promise<Job | undefined> {
+    // Not while another open job holds the same dedupe key
+    const openTwin = alias(jobs, 'open_twin');
+    const results = await db.update(jobs)
+      .set({ status: 'pending', attempts: 0, runAt: new Date(), leasedUntil: null, leaseOwner: null, updatedAt: new Date() })
+      .where(and(
+        eq(jobs.id, id),
+        eq(jobs.status, 'dead'),
+        notExists(db.select({ id: openTwin.id }).from(openTwin)
+          .where(and(eq(openTwin.dedupeKey, jobs.dedupeKey), inArray(openTwin.status, ['pending', 'running'])))),
+      ))
+      .returning();
+    return results[0];
+  }
+
+  async hasOpenJob(dedupeKey: string): Promise<boolean> {
+    const results = await db.select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.dedupeKey, dedupeKey), inArray(jobs.status, ['pending', 'running'])))
+      .limit(1);
+    return results.length > 0;
+  }
+
+  async countOpenJobsForRun(scanRunId: string): Promise<number> {
+    const results = await db.select({ count: sql<number>`COUNT(*)::int` })
+      .from(jobs)
+      .where(and(eq(jobs.scanRunId, scanRunId), inArray(jobs.status, ['pending', 'running'])));
+    return results[0]?.count ?? 0;
+  }
+
+  async getJobs(status?: string, limit = 100): Promise<Job[]> {
+    return await db.select()
+      .from(jobs)
+      .where(status ? eq(jobs.status, status) : undefined)
+      .orderBy(desc(jobs.updatedAt))
+      .limit(limit);
+  }
+
+  // Put a leased job back without spending one of its attempts
+  async deferJob(id: string, workerId: string, runAt: Date, reason: string): Promise<boolean> {
+    const results = await db.update(jobs)
+      .set({
+        status: 'pending',
+        attempts: sql`GREATEST(${jobs.attempts} - 1, 0)`,
+        runAt,
+        lastError: reason,
+        leasedUntil: null,
+        leaseOwner: null,
+        updatedAt: new Date(),
+      })
+      .where(heldLease(id, workerId))
+      .returning({ id: jobs.id });
+    return results.length > 0;
+  }
+
+  async getJobStats(): Promise<{ type: string; status: string; count: number }[]> {
+    return await db.select({
+      type: jobs.type,
+      status: jobs.status,
+      count: sql<number>`COUNT(*)::int`,
+    })
+      .from(jobs)
+      .groupBy(jobs.type, jobs.status);
+  }
+
+  // AI Usage
+  async createAiUsage(insertUsage: InsertAiUsage): Promise<AiUsage> {
+    const results = await db.insert(aiUsage).values({
+      provider: insertUsage.provider,
+      model: insertUsage.model,
+      searchQueryId: insertUsage.searchQueryId ?? null,
+      listingId: insertUsage.listingId ?? null,
+      promptTokens: insertUsage.promptTokens ?? 0,
+      completionTokens: insertUsage.completionTokens ?? 0,
+      totalTokens: insertUsage.totalTokens ?? 0,
+      estimatedCostUsd: insertUsage.estimatedCostUsd ?? "0",
+    }).returning();
+    return results[0];
+  }
+
+  async getAiSpendSince(since: Date): Promise<AiSpend> {
+    const results = await db.select({
+      calls: sql<number>`COUNT(*)::int`,
+      tokens: sql<number>`COALESCE(SUM(${aiUsage.totalTokens}), 0)::int`,
+      costUsd: sql<number>`COALESCE(SUM(${aiUsage.estimatedCostUsd}), 0)::float`,
+    })
+      .from(aiUsage)
+      .where(gte(aiUsage.createdAt, since));
+    return results[0] ?? { calls: 0, tokens: 0, costUsd: 0 };
+  }
+
+  async getAiSpendBySearchSince(since: Date): Promise<{ searchQueryId: string | null; calls: number; costUsd: number }[]> {
+    return await db.select({
+      searchQueryId: aiUsage.searchQueryId,
+      calls: sql<number>`COUNT(*)::int`,
+      costUsd: sql<number>`COALESCE(SUM(${aiUsage.estimatedCostUsd}), 0)::float`,
+    })
+      .from(aiUsage)
+      .where(gte(aiUsage.createdAt, since))
+      .groupBy(aiUsage.searchQueryId);
+  }
+
+  async countFindingsBySearchSince(since: Date): Promise<{ searchQueryId: string | null; count: number }[]> {
+    return await db.select({
+      searchQueryId: findings.searchQueryId,
+      count: sql<number>`COUNT(*)::int`,
+    })
+      .from(findings)
+      .where(gte(findings.foundAt, since))
+      .groupBy(findings.searchQueryId);
+  }
+
+  // Purchases
+  async getPurchases(): Promise<Purchase[]> {
+    return await db.select()
+      .from(purchases)
+      .orderBy(desc(purchases.purchasedAt));
+  }
+
+  async getPurchase(id: string): Promise<Purchase | undefined> {
+    const results = await db.select().from(purchases).where(eq(purchases.id, id));
+    return results[0];
+  }
+
+  async createPurchase(insertPurchase: InsertPurchase): Promise<Purchase> {
+    const results = await db.insert(purchases).values(insertPurchase).returning();
+    return results[0];
+  }
+
+  async updatePurchase(id: string, updates: Partial<InsertPurchase>): Promise<Purchase | undefined> {
+    const results = await db.update(purchases)
+      .set(updates)
+      .where(eq(purchases.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async deletePurchase(id: string): Promise<boolean> {
+    const results = await db.delete(purchases).where(eq(purchases.id, id)).returning();
+    return results.length > 0;
+  }
+
+  // Scraper Alerts
+  async createScraperAlert(insertAlert: InsertScraperAlert): Promise<ScraperAlert> {
+    const results = await db.insert(scraperAlerts).values(insertAlert).returning();
+    return results[0];
+  }
+
+  async getScraperAlert(id: string): Promise<ScraperAlert | undefined> {
+    const results = await db.select().from(scraperAlerts).where(eq(scraperAlerts.id, id));
+    return results[0];
+  }
+
+  async getOpenScraperAlerts(): Promise<ScraperAlertSummary[]> {
+    // The raw page is only fetched on download
+    return await db.select({
+      id: scraperAlerts.id,
+      searchQueryId: scraperAlerts.searchQueryId,
+      scanRunId: scraperAlerts.scanRunId,
+      kind: scraperAlerts.kind,
+      strategy: scraperAlerts.strategy,
+      listingsFound: scraperAlerts.listingsFound,
+      baselineListings: scraperAlerts.baselineListings,
+      pageUrl: scraperAlerts.pageUrl,
+      createdAt: scraperAlerts.createdAt,
+      resolvedAt: scraperAlerts.resolvedAt,
+      searchLabel: searchQueries.searchLabel,
+      hasRawPage: sql<boolean>`${scraperAlerts.rawPage} IS NOT NULL`,
+    })
+      .from(scraperAlerts)
+      .innerJoin(searchQueries, eq(scraperAlerts.searchQueryId, searchQueries.id))
+      .where(isNull(scraperAlerts.resolvedAt))
+      .orderBy(desc(scraperAlerts.createdAt));
+  }
+
+  async findOpenScraperAlert(searchQueryId: string, kind: ScraperAlertKind): Promise<ScraperAlert | undefined> {
+    const results = await db.select()
+      .from(scraperAlerts)
+      .where(and(
+        eq(scraperAlerts.searchQueryId, searchQueryId),
+        eq(scraperAlerts.kind, kind),
+        isNull(scraperAlerts.resolvedAt),
+      ))
+      .limit(1);
+    return results[0];
+  }
+
+  async resolveScraperAlert(id: string): Promise<ScraperAlert | undefined> {
+    const results = await db.update(scraperAlerts)
+      .set({ resolvedAt: new Date() })
+      .where(and(eq(scraperAlerts.id, id), isNull(scraperAlerts.resolvedAt)))
+      .returning();
+    return results[0] ?? await this.getScraperAlert(id);
+  }
+
+  async resolveScraperAlertsForSearch(searchQueryId: string): Promise<number> {
+    const results = await db.update(scraperAlerts)
+      .set({ resolvedAt: new Date() })
+      .where(and(eq(scraperAlerts.searchQueryId, searchQueryId), isNull(scraperAlerts.resolvedAt)))
+      .returning({ id: scraperAlerts.id });
+    return results.length;
+  }
+
+  // Page Snapshots
+  async createPageSnapshot(insertSnapshot: InsertPageSnapshot): Promise<PageSnapshot> {
+    const results = await db.insert(pageSnapshots).values({
+      ...insertSnapshot,
+      listingIds: insertSnapshot.listingIds ?? [],
+    }).returning();
+    return results[0];
+  }
+
+  async getPageSnapshot(id: string): Promise<PageSnapshot | undefined> {
+    const results = await db.select().from(pageSnapshots).where(eq(pageSnapshots.id, id));
+    return results[0];
+  }
+
+  async getPageSnapshots(filters: PageSnapshotFilters = {}): Promise<PageSnapshotSummary[]> {
+    const conditions = [];
+    if (filters.searchQueryId) conditions.push(eq(pageSnapshots.searchQueryId, filters.searchQueryId));
+    if (filters.listingId) conditions.push(sql`${pageSnapshots.listingIds} @> ${JSON.stringify([filters.listingId])}::jsonb`);
+    if (filters.kind) conditions.push(eq(pageSnapshots.kind, filters.kind));
+
+    // The page itself is only loaded for replay
+    return await db.select({
+      id: pageSnapshots.id,
+      kind: pageSnapshots.kind,
+      source: pageSnapshots.source,
+      url: pageSnapshots.url,
+      searchQueryId: pageSnapshots.searchQueryId,
+      scanRunId: pageSnapshots.scanRunId,
+      listingIds: pageSnapshots.listingIds,
+      strategy: pageSnapshots.strategy,
+      sizeBytes: pageSnapshots.sizeBytes,
+      capturedAt: pageSnapshots.capturedAt,
+    })
+      .from(pageSnapshots)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(pageSnapshots.capturedAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  async deletePageSnapshotsBefore(cutoff: Date): Promise<number> {
+    const results = await db.delete(pageSnapshots)
+      .where(lt(pageSnapshots.capturedAt, cutoff))
+      .returning({ id: pageSnapshots.id });
+    return results.length;
+  }
+
+  // Filtered Listings
+  // Keeps the latest rejection per listing and search, so re-checks on later scans don't pile up
+  async recordFilteredListing(insertListing: InsertFilteredListing): Promise<FilteredListing> {
+    const values = {
+      ...insertListing,
+      searchQueryId: insertListing.searchQueryId ?? null,
+      scanRunId: insertListing.scanRunId ?? null,
+      listingUrl: insertListing.listingUrl ?? null,
+      listingTitle: insertListing.listingTitle ?? null,
+      price: insertListing.price ?? null,
+      filteredAt: new Date(),
+    };
+    const results = await db.insert(filteredListings)
+      .values(values)
+      .onConflictDoUpdate({ target: [filteredListings.listingId, filteredListings.searchQueryId], set: values })
+      .returning();
+    return results[0];
+  }
+
+  async getFilteredListings(filters: FilteredListingFilters = {}): Promise<FilteredListing[]> {
+    const conditions = [];
+    if (filters.searchQueryId) conditions.push(eq(filteredListings.searchQueryId, filters.searchQueryId));
+    if (filters.rule) conditions.push(eq(filteredListings.rule, filters.rule));
+
+    return await db.select()
+      .from(filteredListings)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(filteredListings.filteredAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  // Which of the given listings this search has filtered out before
+  async getFilteredListingIds(searchQueryId: string, listingIds: string[]): Promise<string[]> {
+    if (listingIds.length === 0) return [];
+    const results = await db.select({ listingId: filteredListings.listingId })
+      .from(filteredListings)
+      .where(and(eq(filteredListings.searchQueryId, searchQueryId), inArray(filteredListings.listingId, listingIds)));
+    return results.map(row => row.listingId);
+  }
+
+  async getFilterRuleCounts(searchQueryId?: string): Promise<{ rule: string; count: number }[]> {
+    return await db.select({
+      rule: filteredListings.rule,
+      count: sql<number>`COUNT(*)::int`,
+    })
+      .from(filteredListings)
+      .where(searchQueryId ? eq(filteredListings.searchQueryId, searchQueryId) : undefined)
+      .groupBy(filteredListings.rule);
+  }
+
+  async getMetalPrices(): Promise<MetalPrice[]> {
+    return await db.select().from(metalPrices).orderBy(asc(metalPrices.metal));
+  }
+
+  async upsertMetalPrice(insertPrice: InsertMetalPrice): Promise<MetalPrice> {
+    const values = {
+      ...insertPrice,
+      source: insertPrice.source ?? 'manual',
+      updatedAt: new Date(),
+    };
+    const results = await db.insert(metalPrices)
+      .values(values)
+      .onConflictDoUpdate({ target: metalPrices.metal, set: values })
+      .returning();
+    return results[0];
+  }
 }
 
 // Export singleton instance
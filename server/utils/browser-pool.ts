@@ -0,0 +1,253 @@
+/**
+ * Shared Puppeteer browser for all scrapes.
+ *
+ * Launching Chrome per scrape (and per retry) was the slowest and most
+ * memory-hungry part of a scan. One browser is kept alive instead and hands
+ * out a bounded number of pages, each in its own browser context so cookies
+ * never leak between scrapes or Vinted domains. The browser is recycled after
+ * a number of navigations or when its memory grows past a limit.
+ */
+
+import fs from 'fs/promises';
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer';
+
+const MAX_PAGES = parseInt(process.env.BROWSER_MAX_PAGES || '2');
+const MAX_NAVIGATIONS = parseInt(process.env.BROWSER_MAX_NAVIGATIONS || '100');
+const MAX_MEMORY_MB = parseInt(process.env.BROWSER_MAX_MEMORY_MB || '512');
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+const SHUTDOWN_TIMEOUT_MS = 15000;
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--single-process',
+  '--disable-gpu'
+];
+
+export interface BrowserPoolStats {
+  running: boolean;
+  pagesInUse: number;
+  waiting: number;
+  navigations: number;
+  launches: number;
+  memoryMb: number | null;
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+class BrowserPool {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private recycling: Promise<void> | null = null;
+  private contexts = new Map<Page, BrowserContext>();
+  private pagesInUse = 0; // Includes pages still being created
+  private waiters: (() => void)[] = [];
+  private navigations = 0;
+  private launches = 0;
+  private closing = false;
+
+  /**
+   * Run `fn` with a fresh page from the shared browser. The page and its
+   * context are closed afterwards, whether `fn` succeeds or throws.
+   */
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    const page = await this.acquire();
+    try {
+      return await fn(page);
+    } finally {
+      await this.release(page);
+    }
+  }
+
+  async acquire(): Promise<Page> {
+    // Recycle only while no page is out; callers arriving meanwhile wait for it to finish
+    if (this.pagesInUse === 0 && !this.recycling && !this.closing) {
+      this.recycling = this.recycleIfNeeded().finally(() => {
+        this.recycling = null;
+      });
+    }
+    while ((this.recycling || this.pagesInUse >= MAX_PAGES) && !this.closing) {
+      if (this.recycling) {
+        await this.recycling;
+      } else {
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+      }
+    }
+    if (this.closing) {
+      throw new Error('Browser pool is shutting down');
+    }
+
+    // Take the slot before any await so concurrent callers can't overshoot MAX_PAGES
+    this.pagesInUse++;
+    try {
+      const browser = await this.getBrowser();
+      const context = await browser.createBrowserContext();
+      const page = await context.newPage();
+      page.on('framenavigated', frame => {
+        if (frame === page.mainFrame()) this.navigations++;
+      });
+
+      this.contexts.set(page, context);
+      return page;
+    } catch (error) {
+      this.pagesInUse--;
+      this.wakeNext();
+      throw error;
+    }
+  }
+
+  async release(page: Page): Promise<void> {
+    const context = this.contexts.get(page);
+    if (!context) return;
+    this.contexts.delete(page);
+    try {
+      await context.close();
+    } catch (error: any) {
+      console.warn('⚠️ Could not close browser context:', error.message);
+    } finally {
+      this.pagesInUse--;
+      this.wakeNext();
+    }
+  }
+
+  private wakeNext() {
+    this.waiters.shift()?.();
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) {
+      return this.browser;
+    }
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+    return await this.launching;
+  }
+
+  private async launch(): Promise<Browser> {
+    const browser = await puppeteer.launch({ headless: true, args: LAUNCH_ARGS });
+    browser.on('disconnected', () => {
+      if (this.browser === browser) {
+        console.warn('⚠️ Pooled browser disconnected');
+        this.browser = null;
+      }
+    });
+
+    this.browser = browser;
+    this.navigations = 0;
+    this.launches++;
+    console.log(`🌐 Browser launched (launch #${this.launches})`);
+    return browser;
+  }
+
+  /**
+   * Run by acquire while the pool is idle: replace the browser if it is unresponsive,
+   * has served too many navigations, or has grown past the memory limit.
+   */
+  private async recycleIfNeeded(): Promise<void> {
+    if (!this.browser) return;
+
+    let reason: string | null = null;
+    if (!(await this.isHealthy())) {
+      reason = 'health check failed';
+    } else if (this.navigations >= MAX_NAVIGATIONS) {
+      reason = `${this.navigations} navigations`;
+    } else {
+      const memoryMb = await this.getMemoryMb();
+      if (memoryMb !== null && memoryMb > MAX_MEMORY_MB) {
+        reason = `${memoryMb}MB resident memory`;
+      }
+    }
+
+    if (reason) {
+      console.log(`♻️ Recycling browser (${reason})`);
+      await this.closeBrowser();
+    }
+  }
+
+  private async isHealthy(): Promise<boolean> {
+    if (!this.browser?.connected) return false;
+    try {
+      await withTimeout(this.browser.version(), HEALTH_CHECK_TIMEOUT_MS);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Resident memory of the browser process (Linux only; null elsewhere)
+  private async getMemoryMb(): Promise<number | null> {
+    const pid = this.browser?.process()?.pid;
+    if (!pid) return null;
+    try {
+      const status = await fs.readFile(`/proc/${pid}/status`, 'utf-8');
+      const match = status.match(/VmRSS:\s+(\d+)\s+kB/);
+      return match ? Math.round(parseInt(match[1]) / 1024) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async closeBrowser(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (!browser) return;
+    try {
+      await withTimeout(browser.close(), SHUTDOWN_TIMEOUT_MS);
+    } catch (error: any) {
+      console.warn('⚠️ Browser did not close cleanly, killing it:', error.message);
+      browser.process()?.kill('SIGKILL');
+    }
+  }
+
+  async getStats(): Promise<BrowserPoolStats> {
+    return {
+      running: !!this.browser?.connected,
+      pagesInUse: this.pagesInUse,
+      waiting: this.waiters.length,
+      navigations: this.navigations,
+      launches: this.launches,
+      memoryMb: await this.getMemoryMb(),
+    };
+  }
+
+  /**
+   * Stop handing out pages, give in-flight scrapes a moment to finish, then close Chrome.
+   */
+  async shutdown(): Promise<void> {
+    this.closing = true;
+    this.waiters.splice(0).forEach(wake => wake());
+
+    const deadline = Date.now() + SHUTDOWN_TIMEOUT_MS;
+    while (this.pagesInUse > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    if (this.pagesInUse > 0) {
+      console.warn(`⚠️ Closing browser with ${this.pagesInUse} page(s) still in use`);
+    }
+
+    await this.closeBrowser();
+    console.log('🌐 Browser pool shut down');
+  }
+}
+
+// Export singleton instance
+export const browserPool = new BrowserPool();
@@ -7,9 +7,9 @@
 
 import fs from 'fs/promises';
 import path from 'path';
+import { VINTED_DOMAINS, DEFAULT_VINTED_DOMAIN, type VintedDomain } from '@shared/vinted-domains';
 
 const SESSION_FILE = process.env.VINTED_SESSION_FILE || './data/vinted-session.json';
-const VINTED_REGION = process.env.VINTED_REGION || 'NL';
 const LEGACY_SESSION_COOKIE = process.env.VINTED_SESSION_COOKIE;
 
 export interface CookieData {
@@ -37,10 +37,14 @@ export class CookieManager {
   private cookiesLoaded = false;
 
   /**
-   * Load cookies from file or environment variable
+   * Load cookies from file or environment variable. The legacy session cookie
+   * is scoped to the given domain; file cookies keep the domains they were saved with.
    */
-  async loadCookies(): Promise<CookieData[]> {
+  async loadCookies(domain: VintedDomain = VINTED_DOMAINS[DEFAULT_VINTED_DOMAIN]): Promise<CookieData[]> {
     if (this.cookiesLoaded) {
+      if (this.sessionData?.metadata.userAgent === 'legacy-session' && LEGACY_SESSION_COOKIE) {
+        return this.createLegacyCookie(LEGACY_SESSION_COOKIE, domain);
+      }
       return this.sessionData?.cookies || [];
     }
 
@@ -59,13 +63,13 @@ export class CookieManager {
 
     // Fallback to legacy environment variable
     if (LEGACY_SESSION_COOKIE) {
-      const legacyCookies = this.createLegacyCookie(LEGACY_SESSION_COOKIE);
+      const legacyCookies = this.createLegacyCookie(LEGACY_SESSION_COOKIE, domain);
       this.sessionData = {
         cookies: legacyCookies,
         metadata: {
           savedAt: new Date().toISOString(),
           userAgent: 'legacy-session',
-          region: VINTED_REGION
+          region: domain.country
         }
       };
       this.cookiesLoaded = true;
@@ -118,12 +122,12 @@ export class CookieManager {
   /**
    * Create legacy cookie from environment variable
    */
-  private createLegacyCookie(sessionValue: string): CookieData[] {
+  private createLegacyCookie(sessionValue: string, domain: VintedDomain): CookieData[] {
     return [
       {
         name: '_vinted_fr_session',
         value: sessionValue,
-        domain: '.vinted.nl',
+        domain: `.${domain.host}`,
         path: '/',
         httpOnly: true,
         secure: true
@@ -134,20 +138,20 @@ export class CookieManager {
   /**
    * Get region-specific cookies to prevent location popups
    */
-  getRegionCookies(): CookieData[] {
+  getRegionCookies(domain: VintedDomain): CookieData[] {
     return [
       {
         name: 'country',
-        value: VINTED_REGION.toLowerCase(),
-        domain: '.vinted.nl',
+        value: domain.country.toLowerCase(),
+        domain: `.${domain.host}`,
         path: '/',
         httpOnly: false,
         secure: true
       },
       {
         name: 'selected_country',
-        value: VINTED_REGION.toLowerCase(),
-        domain: '.vinted.nl',
+        value: domain.country.toLowerCase(),
+        domain: `.${domain.host}`,
         path: '/',
         httpOnly: false,
         secure: true
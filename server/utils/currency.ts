@@ -0,0 +1,69 @@
+// Currency conversion to a single base currency using a locally configured rate table.
+// No external rate API: rates are updated by editing the table (or CURRENCY_RATES).
+
+import fs from "fs";
+import type { ParsedPrice } from "@shared/price";
+
+const BASE_CURRENCY = (process.env.BASE_CURRENCY || 'EUR').toUpperCase();
+const RATES_FILE = process.env.CURRENCY_RATES_FILE || './server/config/currency-rates.json';
+
+class CurrencyConverter {
+  // Value of one unit of each currency, expressed in the base currency
+  private rates: Record<string, number> = { [BASE_CURRENCY]: 1 };
+
+  constructor() {
+    this.rates = { ...this.rates, ...this.loadRates() };
+  }
+
+  private loadRates(): Record<string, number> {
+    try {
+      if (process.env.CURRENCY_RATES) {
+        return JSON.parse(process.env.CURRENCY_RATES);
+      }
+      const table = JSON.parse(fs.readFileSync(RATES_FILE, 'utf-8'));
+      if (table.base && table.base.toUpperCase() !== BASE_CURRENCY) {
+        console.warn(`⚠️ Currency rate table is in ${table.base}, but BASE_CURRENCY is ${BASE_CURRENCY} - ignoring table`);
+        return {};
+      }
+      return table.rates || {};
+    } catch (error: any) {
+      console.warn("⚠️ Could not load currency rates:", error.message);
+      return {};
+    }
+  }
+
+  get baseCurrency(): string {
+    return BASE_CURRENCY;
+  }
+
+  /**
+   * Convert an amount to the base currency. Returns null for currencies
+   * missing from the rate table rather than guessing.
+   */
+  toBase(amount: number, currency: string): number | null {
+    const rate = this.rates[currency.toUpperCase()];
+    if (rate === undefined) {
+      console.warn(`⚠️ No exchange rate configured for ${currency}`);
+      return null;
+    }
+    return Math.round(amount * rate * 100) / 100;
+  }
+
+  /**
+   * Numeric price columns (as stored on findings and manual scans) for a parsed price.
+   */
+  toPriceColumns(price: ParsedPrice | null): { priceAmount: string | null; priceCurrency: string | null; priceBase: string | null } {
+    if (!price) {
+      return { priceAmount: null, priceCurrency: null, priceBase: null };
+    }
+    const base = this.toBase(price.amount, price.currency);
+    return {
+      priceAmount: price.amount.toFixed(2),
+      priceCurrency: price.currency,
+      priceBase: base === null ? null : base.toFixed(2),
+    };
+  }
+}
+
+// Export singleton instance
+export const currencyConverter = new CurrencyConverter();
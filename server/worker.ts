@@ -0,0 +1,151 @@
+import os from "os";
+import { storage } from "./storage";
+import { failJob, JobDeferredError } from "./services/job-queue";
+import { processScrapeJob, processAnalyzeJob, finalizeScanRun, type AnalyzeJobPayload } from "./services/scanner";
+import type { Job, JobType } from "@shared/schema";
+
+// Worker configuration
+const SCRAPE_CONCURRENCY = parseInt(process.env.SCRAPE_CONCURRENCY || '1'); // one browser at a time
+const ANALYZE_CONCURRENCY = parseInt(process.env.ANALYZE_CONCURRENCY || '2');
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000');
+const LEASE_MS: Record<JobType, number> = {
+  scrape: parseInt(process.env.SCRAPE_JOB_LEASE_MINUTES || '20') * 60 * 1000,
+  analyze: parseInt(process.env.ANALYZE_JOB_LEASE_MINUTES || '5') * 60 * 1000,
+};
+// Running jobs renew their lease every third of it, so a slow job is never leased out twice
+const LEASE_RENEW_FRACTION = 3;
+
+const handlers: Record<JobType, (job: Job) => Promise<void>> = {
+  scrape: processScrapeJob,
+  analyze: processAnalyzeJob,
+};
+
+const workerId = `${os.hostname()}-${process.pid}`;
+let isStopping = false;
+let processedScrapeJobs = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function describeJob(job: Job): string {
+  if (job.type !== 'analyze') return 'Scrape job';
+  const { listing } = job.payload as unknown as AnalyzeJobPayload;
+  return `Analyze job for listing ${listing?.listingId}`;
+}
+
+/**
+ * Keep extending a job's lease while it runs. The lease only has to outlive a
+ * crashed worker, not the slowest job: enrichment, OCR and vision analysis
+ * can together take longer than the lease itself.
+ */
+function startLeaseRenewal(job: Job): () => void {
+  const leaseMs = LEASE_MS[job.type as JobType];
+  const timer = setInterval(async () => {
+    try {
+      if (!await storage.renewJobLease(job.id, workerId, leaseMs)) {
+        console.warn(`⚠️ Lost lease on job ${job.type}:${job.id}`);
+        clearInterval(timer);
+      }
+    } catch (error: any) {
+      console.error(`❌ Could not renew lease on job ${job.type}:${job.id}:`, error.message);
+    }
+  }, leaseMs / LEASE_RENEW_FRACTION);
+  return () => clearInterval(timer);
+}
+
+async function settleScanRun(job: Job, deadLetterError?: string) {
+  if (!job.scanRunId) return;
+
+  if (deadLetterError) {
+    await storage.updateScanRun(job.scanRunId, { errorMessage: `${describeJob(job)} failed: ${deadLetterError}` });
+  }
+  await finalizeScanRun(job.scanRunId);
+}
+
+async function runJob(job: Job) {
+  try {
+    const stopLeaseRenewal = startLeaseRenewal(job);
+    try {
+      await handlers[job.type as JobType](job);
+    } finally {
+      stopLeaseRenewal();
+    }
+    if (!await storage.completeJob(job.id, workerId)) {
+      console.warn(`⚠️ Lost lease on job ${job.type}:${job.id}, dropping its result`);
+      return;
+    }
+    await settleScanRun(job);
+
+    // Memory management after browser-heavy work
+    if (job.type === 'scrape' && global.gc && ++processedScrapeJobs % 3 === 0) {
+      global.gc();
+      console.log("🧹 Memory cleanup performed");
+    }
+  } catch (error: any) {
+    if (error instanceof JobDeferredError) {
+      if (await storage.deferJob(job.id, workerId, error.until, error.message)) {
+        console.log(`⏸ Job ${job.type}:${job.id} deferred until ${error.until.toISOString()}: ${error.message}`);
+      } else {
+        console.warn(`⚠️ Lost lease on job ${job.type}:${job.id}, not deferring it`);
+      }
+      return;
+    }
+
+    const deadLettered = await failJob(job, workerId, error instanceof Error ? error : new Error(String(error)));
+    if (deadLettered) {
+      await settleScanRun(job, error.message);
+    }
+  }
+}
+
+async function runSlot(type: JobType, slot: number) {
+  while (!isStopping) {
+    try {
+      const job = await storage.leaseJob(type, workerId, LEASE_MS[type]);
+      if (!job) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      console.log(`⚙️ [${type}#${slot}] Processing job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+      await runJob(job);
+    } catch (error: any) {
+      console.error(`❌ [${type}#${slot}] Worker error:`, error.message);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+async function reapExpiredJobs() {
+  try {
+    const reaped = await storage.reapExpiredJobs();
+    for (const job of reaped) {
+      console.error(`☠️ Job ${job.type}:${job.id} dead-lettered: lease expired on final attempt`);
+      await settleScanRun(job, 'lease expired on final attempt');
+    }
+  } catch (error: any) {
+    console.error("❌ Error reaping expired jobs:", error.message);
+  }
+}
+
+export function startWorker() {
+  for (let i = 0; i < SCRAPE_CONCURRENCY; i++) {
+    runSlot('scrape', i + 1);
+  }
+  for (let i = 0; i < ANALYZE_CONCURRENCY; i++) {
+    runSlot('analyze', i + 1);
+  }
+
+  // Jobs whose worker died on the last attempt would otherwise stay "running" forever
+  setInterval(reapExpiredJobs, 60 * 1000);
+
+  console.log(`⚙️ Job Worker Started (${workerId}):`);
+  console.log(`   • Scrape concurrency: ${SCRAPE_CONCURRENCY}`);
+  console.log(`   • Analyze concurrency: ${ANALYZE_CONCURRENCY}`);
+  console.log(`   • Expired leases are picked up again after restarts`);
+}
+
+export function stopWorker() {
+  isStopping = true;
+}
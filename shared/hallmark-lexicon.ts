@@ -0,0 +1,228 @@
+// Hallmark and material vocabulary shared by the server (deterministic listing
+// tags, triage) and the client (explaining a hallmark on a finding).
+// Listings come in Dutch, French, German, Italian and English, so every
+// material word is listed per language; text is matched accent-folded and
+// word by word, so "plaqué or" and "PLAQUE OR" are the same phrase.
+
+export const METALS = ['gold', 'silver', 'platinum', 'palladium'] as const;
+export type Metal = typeof METALS[number];
+
+export interface HallmarkMatch {
+  mark: string; // As found: "925", "18k"
+  metal: Metal;
+  fineness: number; // Parts per thousand
+  label: string; // "Sterling silver", "18K gold"
+}
+
+/** Deterministic tags from a listing's title and description */
+export interface ListingTags {
+  hallmarks: HallmarkMatch[];
+  metals: Metal[]; // Solid metals the text names (not negated, not plated)
+  plated: string[]; // Plated/imitation terms ("gold plated", "verguld")
+  negated: string[]; // Material words or marks the text denies ("geen goud", "kein Stempel 925")
+}
+
+// Fineness marks per metal; marks shared by several metals list the likeliest first
+const FINENESS_MARKS: Record<string, { metal: Metal; label: string }[]> = {
+  '333': [{ metal: 'gold', label: '8K gold' }],
+  '375': [{ metal: 'gold', label: '9K gold' }],
+  '417': [{ metal: 'gold', label: '10K gold' }],
+  '500': [{ metal: 'gold', label: '12K gold' }, { metal: 'palladium', label: 'Palladium 500' }],
+  '585': [{ metal: 'gold', label: '14K gold' }],
+  '750': [{ metal: 'gold', label: '18K gold' }],
+  '800': [{ metal: 'silver', label: '800 silver' }],
+  '830': [{ metal: 'silver', label: '830 silver' }],
+  '833': [{ metal: 'gold', label: '20K gold' }, { metal: 'silver', label: '833 silver' }],
+  '835': [{ metal: 'silver', label: '835 silver' }],
+  '850': [{ metal: 'platinum', label: 'Platinum 850' }],
+  '875': [{ metal: 'silver', label: '875 silver' }],
+  '900': [{ metal: 'silver', label: 'Coin silver' }, { metal: 'platinum', label: 'Platinum 900' }],
+  '916': [{ metal: 'gold', label: '22K gold' }],
+  '917': [{ metal: 'gold', label: '22K gold' }],
+  '925': [{ metal: 'silver', label: 'Sterling silver' }],
+  '935': [{ metal: 'silver', label: '935 silver' }],
+  '950': [{ metal: 'platinum', label: 'Platinum 950' }, { metal: 'silver', label: '950 silver' }, { metal: 'palladium', label: 'Palladium 950' }],
+  '958': [{ metal: 'silver', label: 'Britannia silver' }],
+  '999': [{ metal: 'gold', label: '24K fine gold' }, { metal: 'silver', label: 'Fine silver' }, { metal: 'platinum', label: 'Platinum 999' }],
+};
+
+const KARAT_TO_FINENESS: Record<number, string> = {
+  8: '333', 9: '375', 10: '417', 12: '500', 14: '585', 18: '750', 20: '833', 22: '916', 24: '999',
+};
+const KARAT_SUFFIXES = ['k', 'kt', 'ct', 'kr', 'kar', 'karaat', 'karat', 'carat', 'carats'];
+
+// Letters stamped before the fineness on much modern jewelry: "S925", "AU750", "PT950"
+const MARK_PREFIXES: Record<string, Metal> = {
+  au: 'gold', g: 'gold', s: 'silver', ag: 'silver', ster: 'silver', pt: 'platinum', pd: 'palladium',
+};
+
+// Currency symbols become words before tokenizing, which drops symbols: "€ 750" -> "eur 750"
+const CURRENCY_SYMBOLS: [RegExp, string][] = [[/€/g, 'eur'], [/£/g, 'gbp'], [/\$/g, 'usd'], [/zł/gi, 'pln']];
+const CURRENCY_TOKENS = ['eur', 'euro', 'euros', 'gbp', 'usd', 'pln', 'zl', 'chf'];
+
+// A number followed by one of these is a size, weight or price, not a mark
+const UNIT_TOKENS = ['mm', 'cm', 'm', 'g', 'gr', 'gram', 'grams', 'gramm', 'grammes', 'ml', 'x', ...CURRENCY_TOKENS];
+
+// A number shortly after one of these is the asking price: "vraagprijs 750", "Preis: 585", "prix de 750"
+const PRICE_WORDS = ['prijs', 'vraagprijs', 'prix', 'preis', 'price', 'prezzo', 'precio', 'cena'];
+const PRICE_WINDOW = 2;
+
+const MATERIAL_WORDS: Record<Metal, string[]> = {
+  gold: ['gold', 'golden', 'goud', 'gouden', 'massief goud', 'en or', 'or massif', 'or jaune', 'or blanc', 'or rose', 'oro', 'oro giallo', 'oro bianco', 'goldschmuck', 'echtgold'],
+  silver: ['silver', 'sterling', 'zilver', 'zilveren', 'argent', 'en argent', 'silber', 'silberschmuck', 'argento', 'plata'],
+  platinum: ['platinum', 'platina', 'platine', 'platin', 'platino'],
+  palladium: ['palladium', 'palladio'],
+};
+
+// Coatings and imitations: the metal named is only on the surface, or not there at all
+const PLATED_WORDS = [
+  'plated', 'gold plated', 'silver plated', 'gold filled', 'rolled gold', 'gold tone', 'goldtone', 'silver tone', 'silvertone',
+  'gp', 'hge', 'rgp', 'verguld', 'verzilverd', 'goudkleurig', 'zilverkleurig', 'doublé', 'plaqué or', 'plaqué argent',
+  'doré', 'argenté', 'vergoldet', 'versilbert', 'goldfarben', 'silberfarben', 'placcato', 'placcato oro', 'argentato', 'dorato',
+];
+
+// Words that deny what follows within a few words of the same clause: "geen goud", "not real gold", "kein Stempel"
+const NEGATIONS = ['not', 'no', 'non', 'geen', 'niet', 'pas', 'sans', 'kein', 'keine', 'nicht', 'ohne', 'senza', 'without', 'zonder', 'never', 'nooit', 'fake', 'faux', 'imitation', 'imitatie'];
+const NEGATION_WINDOW = 3;
+
+// Stands in for punctuation between clauses, so a negation doesn't reach past it
+const CLAUSE_BREAK = '|';
+
+/** Accent-folded, lowercase words; punctuation between clauses becomes a break token */
+export function tokenize(text: string): string[] {
+  return CURRENCY_SYMBOLS
+    .reduce((result, [symbol, word]) => result.replace(symbol, ` ${word} `), text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,;:!?()\n]+/g, ` ${CLAUSE_BREAK} `)
+    .split(/[^a-z0-9|]+/)
+    .filter(Boolean);
+}
+
+// Start indexes of a (possibly multi-word) phrase in the token list
+function findPhrase(tokens: string[], phrase: string): number[] {
+  const words = tokenize(phrase);
+  const starts: number[] = [];
+  for (let i = 0; i + words.length <= tokens.length; i++) {
+    if (words.every((word, j) => tokens[i + j] === word)) starts.push(i);
+  }
+  return starts;
+}
+
+function isNegated(tokens: string[], index: number): boolean {
+  for (let i = index - 1; i >= Math.max(0, index - NEGATION_WINDOW); i--) {
+    if (tokens[i] === CLAUSE_BREAK) return false;
+    if (NEGATIONS.includes(tokens[i])) return true;
+  }
+  return false;
+}
+
+// Whether the number at a token is a price: right after a currency, or just after a price word ("prijs: 750")
+function isPrice(tokens: string[], index: number): boolean {
+  if (CURRENCY_TOKENS.includes(tokens[index - 1])) return true;
+  for (let i = index - 1; i >= Math.max(0, index - PRICE_WINDOW); i--) {
+    if (PRICE_WORDS.includes(tokens[i])) return true;
+    if (tokens[i] === CLAUSE_BREAK) return PRICE_WORDS.includes(tokens[i - 1]);
+  }
+  return false;
+}
+
+interface MarkReading {
+  mark: string;
+  fineness: string;
+  metal?: Metal; // Named by a prefix
+  length: number; // Tokens the mark spans
+}
+
+// Fineness mark at a token ("925", "18k", "S925", or "18" + "karaat")
+function readMark(tokens: string[], index: number): MarkReading | null {
+  const token = tokens[index];
+  const next = tokens[index + 1];
+
+  const prefixed = token.match(/^([a-z]{1,4})(\d{3})$/);
+  if (prefixed && MARK_PREFIXES[prefixed[1]]) {
+    const metal = MARK_PREFIXES[prefixed[1]];
+    if (FINENESS_MARKS[prefixed[2]]?.some(candidate => candidate.metal === metal)) {
+      return { mark: token, fineness: prefixed[2], metal, length: 1 };
+    }
+  }
+
+  const karat = token.match(/^(\d{1,2})(k|kt|ct|kr|kar|karaat|karat|carat|carats)$/);
+  if (karat && KARAT_TO_FINENESS[parseInt(karat[1])]) {
+    return { mark: token, fineness: KARAT_TO_FINENESS[parseInt(karat[1])], length: 1 };
+  }
+  if (/^\d{1,2}$/.test(token) && KARAT_TO_FINENESS[parseInt(token)] && next && KARAT_SUFFIXES.includes(next)) {
+    return { mark: `${token}${next}`, fineness: KARAT_TO_FINENESS[parseInt(token)], length: 2 };
+  }
+  if (FINENESS_MARKS[token] && !(next && UNIT_TOKENS.includes(next)) && !isPrice(tokens, index)) {
+    return { mark: token, fineness: token, length: 1 };
+  }
+  return null;
+}
+
+/**
+ * Tag a listing's text with the hallmarks and materials it mentions. Marks
+ * shared by several metals resolve to a metal the text names, otherwise to
+ * the likeliest one. Plated terms don't cancel a mark ("925 verguld" is
+ * gilded sterling silver) but do cancel the metal word they contain.
+ */
+export function tagListingText(text: string): ListingTags {
+  const tokens = tokenize(text);
+
+  // Token positions covered by a plated phrase, so "gold" in "gold plated" isn't solid gold
+  const platedTokens = new Set<number>();
+  const plated = new Set<string>();
+  for (const phrase of PLATED_WORDS) {
+    for (const start of findPhrase(tokens, phrase)) {
+      plated.add(phrase);
+      tokenize(phrase).forEach((_, j) => platedTokens.add(start + j));
+    }
+  }
+
+  const metals = new Set<Metal>();
+  const negated = new Set<string>();
+  for (const [metal, words] of Object.entries(MATERIAL_WORDS) as [Metal, string[]][]) {
+    for (const word of words) {
+      for (const start of findPhrase(tokens, word)) {
+        if (platedTokens.has(start)) continue;
+        if (isNegated(tokens, start)) {
+          negated.add(word);
+        } else {
+          metals.add(metal);
+        }
+      }
+    }
+  }
+
+  const hallmarks: HallmarkMatch[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const found = readMark(tokens, i);
+    if (!found) continue;
+    if (isNegated(tokens, i)) {
+      negated.add(found.mark);
+      continue;
+    }
+
+    const candidates = FINENESS_MARKS[found.fineness];
+    const meaning = candidates.find(candidate => candidate.metal === found.metal)
+      ?? candidates.find(candidate => metals.has(candidate.metal))
+      ?? candidates[0];
+    if (!hallmarks.some(hallmark => hallmark.fineness === parseInt(found.fineness) && hallmark.metal === meaning.metal)) {
+      hallmarks.push({ mark: found.mark, metal: meaning.metal, fineness: parseInt(found.fineness), label: meaning.label });
+    }
+    i += found.length - 1;
+  }
+
+  return {
+    hallmarks,
+    metals: Array.from(metals),
+    plated: Array.from(plated),
+    negated: Array.from(negated),
+  };
+}
+
+/** "925 → 92.5% silver (Sterling silver)" */
+export function describeHallmark(hallmark: HallmarkMatch): string {
+  return `${hallmark.mark} → ${hallmark.fineness / 10}% ${hallmark.metal} (${hallmark.label})`;
+}
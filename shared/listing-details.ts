@@ -0,0 +1,43 @@
+// Helpers for building ListingDetails from marketplace JSON, shared by the
+// Vinted and Marktplaats parsers.
+
+import type { ListingDetails } from "./schema";
+
+/**
+ * ISO timestamp from a Unix timestamp (seconds or milliseconds) or a date
+ * string; undefined when the value isn't a usable date.
+ */
+export function toIsoTimestamp(value: unknown): string | undefined {
+  if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+  const numeric = typeof value === 'number' ? value : /^\d+$/.test(value) ? Number(value) : null;
+  const date = numeric !== null
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function toCount(value: unknown): number | undefined {
+  const count = typeof value === 'string' ? Number(value) : value;
+  return typeof count === 'number' && Number.isFinite(count) && count >= 0 ? Math.round(count) : undefined;
+}
+
+/** Drops empty values; undefined when nothing is left */
+export function compactDetails(details: { [K in keyof ListingDetails]?: ListingDetails[K] | null }): ListingDetails | undefined {
+  const entries = Object.entries(details).filter(([, value]) =>
+    value !== undefined && value !== null && !(typeof value === 'string' && value.trim() === '')
+  ).map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value]);
+  return entries.length > 0 ? Object.fromEntries(entries) as ListingDetails : undefined;
+}
+
+/** Brand, condition and category from schema.org Product JSON-LD */
+export function detailsFromJsonLd(product: any): ListingDetails | undefined {
+  const condition = typeof product.itemCondition === 'string'
+    // "https://schema.org/UsedCondition" -> "Used"
+    ? product.itemCondition.replace(/^.*\//, '').replace(/Condition$/, '')
+    : undefined;
+  return compactDetails({
+    brand: typeof product.brand === 'string' ? product.brand : product.brand?.name,
+    condition,
+    category: typeof product.category === 'string' ? product.category : undefined,
+  });
+}
@@ -0,0 +1,21 @@
+// Which marketplace a search or listing URL belongs to. Shared so search
+// validation (schema) and the server adapters agree on the same hosts.
+
+import type { MarketplaceSource } from "./schema";
+import { getVintedDomain } from "./vinted-domains";
+
+const MARKTPLAATS_HOSTS = ['marktplaats.nl', 'www.marktplaats.nl'];
+
+export function isMarktplaatsUrl(url: string): boolean {
+  try {
+    return MARKTPLAATS_HOSTS.includes(new URL(url).hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+export function detectMarketplaceSource(url: string): MarketplaceSource | null {
+  if (getVintedDomain(url)) return 'vinted';
+  if (isMarktplaatsUrl(url)) return 'marktplaats';
+  return null;
+}
@@ -0,0 +1,82 @@
+// Price parsing shared by the scraper, server and client.
+// Vinted shows prices as "€12,50", "12,50 €", "12.50 EUR", "£8.00", "45,00 zł", "1.234,56 €" ...
+
+export interface ParsedPrice {
+  amount: number;
+  currency: string; // ISO 4217
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '$': 'USD',
+  'zł': 'PLN',
+  'kč': 'CZK',
+  'ft': 'HUF',
+  'lei': 'RON',
+  'kr': 'SEK',
+  'chf': 'CHF',
+};
+
+const ISO_CODES = ['EUR', 'GBP', 'USD', 'PLN', 'CZK', 'HUF', 'RON', 'SEK', 'DKK', 'CHF', 'LTL'];
+
+function detectCurrency(text: string): string | null {
+  const upper = text.toUpperCase();
+  const iso = ISO_CODES.find(code => new RegExp(`\\b${code}\\b`).test(upper));
+  if (iso) return iso;
+
+  const lower = text.toLowerCase();
+  for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (lower.includes(symbol)) return code;
+  }
+  return null;
+}
+
+/**
+ * Parse the number out of a price string, handling both "1.234,56" and
+ * "1,234.56" styles. A single separator followed by exactly three digits is
+ * treated as a thousands separator ("1.250" -> 1250).
+ */
+function parseAmount(text: string): number | null {
+  const match = text.match(/\d[\d.,\s\u00a0\u202f]*/);
+  if (!match) return null;
+
+  let number = match[0].replace(/[\s\u00a0\u202f]/g, '').replace(/[.,]$/, '');
+  const lastComma = number.lastIndexOf(',');
+  const lastDot = number.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // The later separator is the decimal one
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    number = number.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const parts = number.split(separator);
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    number = isThousands ? parts.join('') : parts.join('.');
+  }
+
+  const amount = parseFloat(number);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Parse a free-form price into amount + ISO currency. Returns null when no
+ * number is present (e.g. "Price not available"). Prices without a currency
+ * marker get the fallback currency.
+ */
+export function parsePrice(text: string | null | undefined, fallbackCurrency = 'EUR'): ParsedPrice | null {
+  if (!text) return null;
+  const amount = parseAmount(text);
+  if (amount === null) return null;
+  return { amount, currency: detectCurrency(text) ?? fallbackCurrency };
+}
+
+export function formatPrice(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -1,23 +1,192 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, decimal, jsonb, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { VINTED_DOMAINS } from "./vinted-domains";
+import { detectMarketplaceSource } from "./marketplaces";
+import { METALS, type HallmarkMatch, type ListingTags, type Metal } from "./hallmark-lexicon";
 
 // Lot type enum for categorizing jewelry listings
 export const lotTypeEnum = z.enum(['single', 'vintage_lot', 'estate', 'mixed']);
 export type LotType = z.infer<typeof lotTypeEnum>;
 
+// Material categories the analyzers can report
+export const mainMaterialEnum = z.enum([
+  'gold', 'silver', 'pearls', 'diamonds', 'precious_gemstones',
+  'semi_precious_stones', 'religious_medals', 'signed_vintage',
+  'art_deco', 'art_nouveau', 'mixed', 'unknown'
+]);
+export type MainMaterial = z.infer<typeof mainMaterialEnum>;
+
+// Analysis backends, selectable per environment and per search query
+export const analyzerProviderEnum = z.enum(['openai', 'ollama', 'mock']);
+export type AnalyzerProvider = z.infer<typeof analyzerProviderEnum>;
+
+// Marketplaces a search can scan (see server/services/marketplace.ts)
+export const marketplaceSourceEnum = z.enum(['vinted', 'marktplaats']);
+export type MarketplaceSource = z.infer<typeof marketplaceSourceEnum>;
+
+// When the scanner fetches a listing's item page before analysis: never, only
+// when the search result looks thin (no description, few photos), or always
+export const enrichmentModeEnum = z.enum(['off', 'thin', 'always']);
+export type EnrichmentMode = z.infer<typeof enrichmentModeEnum>;
+
+// What an analysis ran on: item page data, search results only, or search results after a failed fetch
+export const enrichmentResultEnum = z.enum(['enriched', 'search_only', 'failed']);
+export type EnrichmentResult = z.infer<typeof enrichmentResultEnum>;
+
+// Text-only screening before the vision analysis (TRIAGE_MODE); 'off' sends everything to vision
+export const triageModeEnum = z.enum(['off', 'heuristic', 'llm']);
+export type TriageMode = z.infer<typeof triageModeEnum>;
+export type TriageProvider = Exclude<TriageMode, 'off'>;
+
+// What triage did with a listing: passed it on, dropped it, or dropped it but
+// sent it to vision anyway as a shadow sample to measure what dropping misses
+export const triageDecisionEnum = z.enum(['escalated', 'dropped', 'shadow']);
+export type TriageDecision = z.infer<typeof triageDecisionEnum>;
+
+// Precious metals with a spot price in Settings
+export const metalEnum = z.enum(METALS);
+
+// How a spot price was last set
+export const metalPriceSourceEnum = z.enum(['manual', 'csv']);
+export type MetalPriceSource = z.infer<typeof metalPriceSourceEnum>;
+
+// Upper bound for a search's maxPages
+export const MAX_SEARCH_PAGES = 10;
+
+// Cheap per-search rules checked before any AI call. Prices are in
+// BASE_CURRENCY; keywords match the title and description case- and
+// accent-insensitively, so list each language's variant ("gold tone", "goudkleurig")
+export const filterRulesSchema = z.object({
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().positive().optional(),
+  requiredKeywords: z.array(z.string()).optional(), // At least one must appear
+  excludedKeywords: z.array(z.string()).optional(),
+  excludedBrands: z.array(z.string()).optional(),
+  excludedSellers: z.array(z.string()).optional(), // Seller names or ids
+  minPhotos: z.number().int().positive().optional(),
+});
+export type FilterRules = z.infer<typeof filterRulesSchema>;
+
+export const filterRuleEnum = z.enum([
+  'min_price', 'max_price', 'required_keywords', 'excluded_keywords', 'excluded_brands', 'excluded_sellers', 'min_photos',
+]);
+export type FilterRule = z.infer<typeof filterRuleEnum>;
+
+// What started a scan run
+export const scanTriggerEnum = z.enum(['cron', 'manual', 'external']);
+export type ScanTrigger = z.infer<typeof scanTriggerEnum>;
+
+export const scanRunStatusEnum = z.enum(['queued', 'running', 'completed', 'failed']);
+export type ScanRunStatus = z.infer<typeof scanRunStatusEnum>;
+
+// Background job queue: scrape a search page, analyze a single listing
+export const jobTypeEnum = z.enum(['scrape', 'analyze']);
+export type JobType = z.infer<typeof jobTypeEnum>;
+
+// Failed attempts go back to 'pending' with a backoff; 'dead' is the dead-letter state
+export const jobStatusEnum = z.enum(['pending', 'running', 'completed', 'dead']);
+export type JobStatus = z.infer<typeof jobStatusEnum>;
+
+// Buying pipeline stages of a finding
+export const findingStatusEnum = z.enum(['new', 'watching', 'contacted', 'bought', 'passed', 'sold']);
+export type FindingStatus = z.infer<typeof findingStatusEnum>;
+
+// Findings in these states are never removed by the expiry cleanup
+export const RETAINED_FINDING_STATUSES: FindingStatus[] = ['bought', 'sold'];
+
+// Near-miss review state of an analyzed listing (null = not a near miss)
+export const reviewStatusEnum = z.enum(['pending', 'promoted', 'dismissed']);
+export type ReviewStatus = z.infer<typeof reviewStatusEnum>;
+
+// Raw page snapshots: a scraped search results page or a single listing page
+export const pageSnapshotKindEnum = z.enum(['search', 'listing']);
+export type PageSnapshotKind = z.infer<typeof pageSnapshotKindEnum>;
+
+// Parser drift: a search that usually has results scraped nothing, or only the DOM fallback matched
+export const scraperAlertKindEnum = z.enum(['zero_results', 'dom_fallback']);
+export type ScraperAlertKind = z.infer<typeof scraperAlertKindEnum>;
+
 export const searchQueries = pgTable("search_queries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  vintedUrl: text("vinted_url").notNull(),
+  vintedUrl: text("vinted_url").notNull(), // Search URL on the source marketplace
+  source: text("source").notNull().default("vinted"), // MarketplaceSource, derived from vintedUrl
+  vintedDomain: text("vinted_domain"), // Derived from vintedUrl, e.g. "vinted.fr"; null for other marketplaces
   searchLabel: text("search_label").notNull(),
   scanFrequencyHours: integer("scan_frequency_hours").notNull().default(3),
   confidenceThreshold: integer("confidence_threshold").notNull().default(70),
+  scanJitterMinutes: integer("scan_jitter_minutes").notNull().default(15),
+  nearMissMinScore: integer("near_miss_min_score").notNull().default(50), // Review band: [nearMissMinScore, confidenceThreshold)
+  analyzerProvider: text("analyzer_provider"), // null = ANALYZER_PROVIDER default
+  enrichmentMode: text("enrichment_mode"), // null = ENRICHMENT_MODE default
+  maxPages: integer("max_pages").notNull().default(1), // Result pages read per scan
+  maxListingAgeHours: integer("max_listing_age_hours"), // Stop paginating at listings older than this; null = no age cutoff
+  filterRules: jsonb("filter_rules").$type<FilterRules>(), // Pre-filter before analysis; null = analyze everything
+  triageMinScore: integer("triage_min_score"), // Triage score needed for vision analysis; null = TRIAGE_MIN_SCORE default
+  minMeltValuePercent: integer("min_melt_value_percent"), // Alert on melt value >= this % of the price; null = AI confidence only
   isActive: boolean("is_active").notNull().default(true),
   lastScannedAt: timestamp("last_scanned_at"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Full analyzer output, persisted with every analyzed listing
+export interface AntiqueDealerAnalysisResult {
+  listingUrl: string;
+  isValuableLikely: boolean;
+  confidence: number;
+  mainMaterialGuess: MainMaterial;
+  reasons: string[];
+  error?: string; // Set when the AI call or response parsing failed
+  usage?: AnalysisUsage; // Token usage when a model was actually called
+}
+
+// Text-only triage output, persisted with the analyzed listing
+export interface TriageResult {
+  score: number; // 0-100, how likely the listing is worth a vision analysis
+  reasons: string[];
+  provider: TriageProvider;
+  model: string;
+  error?: string; // Set when the model call failed; such listings are escalated
+  usage?: AnalysisUsage;
+}
+
+// A hallmark stamp read from a listing photo by the optional OCR pass
+export interface DetectedHallmark extends HallmarkMatch {
+  photo: number; // 1-based position in the listing's photos
+  confidence: number; // OCR confidence, 0-100
+}
+
+// Value of the pure metal in a listing: weight from the text × fineness of its hallmark × spot price
+export interface MeltEstimate {
+  weightGrams: number;
+  metal: Metal;
+  fineness: number; // Parts per thousand
+  mark: string; // The hallmark the fineness came from
+  pricePerGram: number; // Spot price of the pure metal, base currency
+  value: number; // Base currency
+}
+
+export interface AnalysisUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Listing attributes beyond title, price and photos, as far as the marketplace shows them
+export interface ListingDetails {
+  brand?: string;
+  condition?: string; // As displayed, e.g. "Zeer goed"
+  size?: string;
+  category?: string;
+  sellerId?: string;
+  sellerName?: string;
+  sellerRating?: number; // 0-5
+  uploadedAt?: string; // ISO 8601
+  favouriteCount?: number;
+  viewCount?: number;
+}
+
 export const analyzedListings = pgTable("analyzed_listings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   listingId: text("listing_id").notNull().unique(),
@@ -26,14 +195,46 @@ export const analyzedListings = pgTable("analyzed_listings", {
   confidenceScore: integer("confidence_score").notNull(),
   isValuable: boolean("is_valuable").notNull(),
   lotType: text("lot_type").notNull().default("single"),
+  // Listing snapshot as it was analyzed (nullable for rows recorded before snapshots existed)
+  listingUrl: text("listing_url"),
+  listingTitle: text("listing_title"),
+  price: text("price"),
+  description: text("description"),
+  imageUrls: jsonb("image_urls").$type<string[]>(),
+  details: jsonb("details").$type<ListingDetails>(),
+  enrichment: text("enrichment"), // EnrichmentResult; null for rows from before enrichment existed
+  tags: jsonb("tags").$type<ListingTags>(), // Hallmarks and materials named in the text (shared/hallmark-lexicon)
+  detectedHallmarks: jsonb("detected_hallmarks").$type<DetectedHallmark[]>(), // Read from the photos; null when OCR was off
+  meltEstimate: jsonb("melt_estimate").$type<MeltEstimate>(), // null without a hallmark, weight or spot price
+  // Triage stage (null when triage was off); dropped listings have no vision analysis
+  triageScore: integer("triage_score"),
+  triageDecision: text("triage_decision"), // TriageDecision
+  triageResult: jsonb("triage_result").$type<TriageResult>(),
+  // Analysis result
+  mainMaterialGuess: text("main_material_guess"),
+  reasons: jsonb("reasons").$type<string[]>(),
+  analysisResult: jsonb("analysis_result").$type<AntiqueDealerAnalysisResult>(),
+  analyzerProvider: text("analyzer_provider"),
+  analyzerModel: text("analyzer_model"),
+  // Near-miss review queue
+  reviewStatus: text("review_status"),
+  reviewedAt: timestamp("reviewed_at"),
 });
 
 export const findings = pgTable("findings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: text("source").notNull().default("vinted"), // MarketplaceSource the listing came from
   listingId: text("listing_id").notNull(),
   listingUrl: text("listing_url").notNull(),
   listingTitle: text("listing_title").notNull(),
-  price: text("price").notNull(),
+  price: text("price").notNull(), // As displayed on the listing
+  priceAmount: decimal("price_amount", { precision: 10, scale: 2 }),
+  priceCurrency: text("price_currency"), // ISO 4217
+  priceBase: decimal("price_base", { precision: 10, scale: 2 }), // Converted to BASE_CURRENCY
+  details: jsonb("details").$type<ListingDetails>(),
+  tags: jsonb("tags").$type<ListingTags>(),
+  detectedHallmarks: jsonb("detected_hallmarks").$type<DetectedHallmark[]>(),
+  meltEstimate: jsonb("melt_estimate").$type<MeltEstimate>(),
   confidenceScore: integer("confidence_score").notNull(),
   aiReasoning: text("ai_reasoning").notNull(),
   detectedMaterials: jsonb("detected_materials").notNull().$type<string[]>(),
@@ -46,6 +247,18 @@ export const findings = pgTable("findings", {
   expiresAt: timestamp("expires_at").notNull(),
   lastScannedAt: timestamp("last_scanned_at"),
   scanIntervalMinutes: integer("scan_interval_minutes").notNull().default(90),
+  status: text("status").notNull().default("new"),
+  statusChangedAt: timestamp("status_changed_at"),
+});
+
+export const findingStatusHistory = pgTable("finding_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  findingId: varchar("finding_id").notNull().references(() => findings.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  changedBy: text("changed_by"),
+  note: text("note"),
+  changedAt: timestamp("changed_at").notNull().default(sql`now()`),
 });
 
 export const manualScans = pgTable("manual_scans", {
@@ -59,32 +272,285 @@ export const manualScans = pgTable("manual_scans", {
   isValuable: boolean("is_valuable").notNull().default(false),
   lotType: text("lot_type").notNull().default("single"),
   price: text("price"),
+  priceAmount: decimal("price_amount", { precision: 10, scale: 2 }),
+  priceCurrency: text("price_currency"),
+  priceBase: decimal("price_base", { precision: 10, scale: 2 }),
+  details: jsonb("details").$type<ListingDetails>(),
   scannedAt: timestamp("scanned_at").notNull().default(sql`now()`),
 });
 
-export const insertSearchQuerySchema = createInsertSchema(searchQueries).omit({
+export const scanRuns = pgTable("scan_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  searchQueryId: varchar("search_query_id").notNull().references(() => searchQueries.id, { onDelete: "cascade" }),
+  trigger: text("trigger").notNull().default("cron"),
+  status: text("status").notNull().default("running"),
+  startedAt: timestamp("started_at").notNull().default(sql`now()`),
+  finishedAt: timestamp("finished_at"),
+  listingsScraped: integer("listings_scraped").notNull().default(0),
+  skippedDuplicates: integer("skipped_duplicates").notNull().default(0),
+  analyzed: integer("analyzed").notNull().default(0),
+  findingsCreated: integer("findings_created").notNull().default(0),
+  alertsSent: integer("alerts_sent").notNull().default(0),
+  aiErrors: integer("ai_errors").notNull().default(0),
+  enriched: integer("enriched").notNull().default(0), // Listings completed from their item page
+  pagesScanned: integer("pages_scanned").notNull().default(0),
+  filteredOut: integer("filtered_out").notNull().default(0), // Listings rejected by the search's filter rules
+  triagedOut: integer("triaged_out").notNull().default(0), // Listings triage kept from the vision analysis
+  extractionStrategy: text("extraction_strategy"), // Parser strategy that found the listings, null if none matched
+  errorMessage: text("error_message"),
+});
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  status: text("status").notNull().default("pending"),
+  payload: jsonb("payload").notNull().$type<Record<string, unknown>>(),
+  dedupeKey: text("dedupe_key"),
+  searchQueryId: varchar("search_query_id").references(() => searchQueries.id, { onDelete: "cascade" }),
+  scanRunId: varchar("scan_run_id").references(() => scanRuns.id, { onDelete: "cascade" }),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().default(sql`now()`),
+  leasedUntil: timestamp("leased_until"),
+  leaseOwner: text("lease_owner"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  // At most one open job per dedupe key, also when two enqueuers race
+  uniqueIndex("jobs_open_dedupe_key_unique").on(table.dedupeKey).where(sql`${table.status} in ('pending', 'running')`),
+]);
+
+// One row per AI model call, for cost accounting and budget caps
+export const aiUsage = pgTable("ai_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  searchQueryId: varchar("search_query_id").references(() => searchQueries.id, { onDelete: "set null" }),
+  listingId: text("listing_id"),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  estimatedCostUsd: decimal("estimated_cost_usd", { precision: 12, scale: 6 }).notNull().default("0"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Purchase and resale ledger. Amounts are in the base currency (BASE_CURRENCY);
+// listing title and search are copied from the finding so the ledger survives
+// finding deletion.
+export const purchases = pgTable("purchases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  findingId: varchar("finding_id").references(() => findings.id, { onDelete: "set null" }),
+  searchQueryId: varchar("search_query_id").references(() => searchQueries.id, { onDelete: "set null" }),
+  listingTitle: text("listing_title").notNull(),
+  purchasePrice: decimal("purchase_price", { precision: 10, scale: 2 }).notNull(),
+  shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  buyerProtectionFee: decimal("buyer_protection_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  testedMaterial: text("tested_material"), // Material confirmed after testing, e.g. "gold" or "silver"
+  weightGrams: decimal("weight_grams", { precision: 10, scale: 2 }),
+  purchasedAt: timestamp("purchased_at").notNull().default(sql`now()`),
+  resaleChannel: text("resale_channel"),
+  resalePrice: decimal("resale_price", { precision: 10, scale: 2 }),
+  resaleFees: decimal("resale_fees", { precision: 10, scale: 2 }).notNull().default("0"),
+  soldAt: timestamp("sold_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Parser drift alerts. The scraped page is kept gzipped (base64) for debugging;
+// an alert stays open until dismissed or a later scan of the search looks healthy.
+export const scraperAlerts = pgTable("scraper_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  searchQueryId: varchar("search_query_id").notNull().references(() => searchQueries.id, { onDelete: "cascade" }),
+  scanRunId: varchar("scan_run_id").references(() => scanRuns.id, { onDelete: "set null" }),
+  kind: text("kind").notNull(),
+  strategy: text("strategy"),
+  listingsFound: integer("listings_found").notNull().default(0),
+  baselineListings: integer("baseline_listings"), // Median of recent runs, null without enough history
+  pageUrl: text("page_url").notNull(),
+  rawPage: text("raw_page"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Scraped pages as fetched (HTML including embedded JSON, gzipped + base64), kept
+// when PAGE_SNAPSHOTS is enabled so extraction and analysis can be replayed offline
+export const pageSnapshots = pgTable("page_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: text("kind").notNull(),
+  source: text("source").notNull().default("vinted"),
+  url: text("url").notNull(),
+  searchQueryId: varchar("search_query_id").references(() => searchQueries.id, { onDelete: "set null" }),
+  scanRunId: varchar("scan_run_id").references(() => scanRuns.id, { onDelete: "set null" }),
+  listingIds: jsonb("listing_ids").notNull().default([]).$type<string[]>(), // Listings extracted from the page
+  strategy: text("strategy"),
+  html: text("html").notNull(),
+  sizeBytes: integer("size_bytes").notNull().default(0), // Uncompressed
+  capturedAt: timestamp("captured_at").notNull().default(sql`now()`),
+});
+
+// Listings a search's filter rules rejected before analysis, with the rule that
+// matched. One row per listing and search, so rules can be tuned without paying
+// for vision calls. Later scans of that search skip these listings until its
+// rules change, which clears the search's rows.
+export const filteredListings = pgTable("filtered_listings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listingId: text("listing_id").notNull(),
+  searchQueryId: varchar("search_query_id").references(() => searchQueries.id, { onDelete: "cascade" }),
+  scanRunId: varchar("scan_run_id").references(() => scanRuns.id, { onDelete: "set null" }),
+  rule: text("rule").notNull(), // FilterRule
+  reason: text("reason").notNull(),
+  listingUrl: text("listing_url"),
+  listingTitle: text("listing_title"),
+  price: text("price"),
+  filteredAt: timestamp("filtered_at").notNull().default(sql`now()`),
+}, (table) => [
+  // One rejection per search: searches sharing a listing each keep their own reason
+  unique("filtered_listings_listing_search_unique").on(table.listingId, table.searchQueryId),
+]);
+
+// Spot price per gram of pure metal in the base currency, one row per metal
+export const metalPrices = pgTable("metal_prices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  metal: text("metal").notNull().unique(), // Metal
+  pricePerGram: decimal("price_per_gram", { precision: 10, scale: 4 }).notNull(),
+  source: text("source").notNull().default("manual"), // MetalPriceSource
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const insertSearchQuerySchema = createInsertSchema(searchQueries, {
+  vintedUrl: z.string().refine((url) => detectMarketplaceSource(url) !== null, {
+    message: `Unsupported search URL - expected marktplaats.nl or one of ${Object.keys(VINTED_DOMAINS).join(', ')}`,
+  }),
+  scanFrequencyHours: z.number().int().min(1).max(168).optional(),
+  confidenceThreshold: z.number().int().min(0).max(100).optional(),
+  scanJitterMinutes: z.number().int().min(0).max(180).optional(),
+  nearMissMinScore: z.number().int().min(0).max(100).optional(),
+  analyzerProvider: analyzerProviderEnum.nullable().optional(),
+  enrichmentMode: enrichmentModeEnum.nullable().optional(),
+  maxPages: z.number().int().min(1).max(MAX_SEARCH_PAGES).optional(),
+  maxListingAgeHours: z.number().int().positive().nullable().optional(),
+  filterRules: filterRulesSchema.nullable().optional(),
+  triageMinScore: z.number().int().min(0).max(100).nullable().optional(),
+  minMeltValuePercent: z.number().int().positive().nullable().optional(),
+}).omit({
   id: true,
+  source: true,
+  vintedDomain: true,
   createdAt: true,
   lastScannedAt: true,
 });
 
-export const insertAnalyzedListingSchema = createInsertSchema(analyzedListings).omit({
+export const insertAnalyzedListingSchema = createInsertSchema(analyzedListings, {
+  imageUrls: z.array(z.string()).nullable().optional(),
+  reasons: z.array(z.string()).nullable().optional(),
+  analysisResult: z.custom<AntiqueDealerAnalysisResult>().nullable().optional(),
+  details: z.custom<ListingDetails>().nullable().optional(),
+  enrichment: enrichmentResultEnum.nullable().optional(),
+  triageDecision: triageDecisionEnum.nullable().optional(),
+  triageResult: z.custom<TriageResult>().nullable().optional(),
+  tags: z.custom<ListingTags>().nullable().optional(),
+  detectedHallmarks: z.custom<DetectedHallmark[]>().nullable().optional(),
+  meltEstimate: z.custom<MeltEstimate>().nullable().optional(),
+}).omit({
   id: true,
   analyzedAt: true,
 });
 
-export const insertFindingSchema = createInsertSchema(findings).omit({
+export const insertFindingSchema = createInsertSchema(findings, {
+  details: z.custom<ListingDetails>().nullable().optional(),
+  tags: z.custom<ListingTags>().nullable().optional(),
+  detectedHallmarks: z.custom<DetectedHallmark[]>().nullable().optional(),
+  meltEstimate: z.custom<MeltEstimate>().nullable().optional(),
+}).omit({
   id: true,
   foundAt: true,
 });
 
-export const insertManualScanSchema = createInsertSchema(manualScans).omit({
+export const insertFindingStatusHistorySchema = createInsertSchema(findingStatusHistory).omit({
+  id: true,
+  changedAt: true,
+});
+
+export const insertManualScanSchema = createInsertSchema(manualScans, {
+  details: z.custom<ListingDetails>().nullable().optional(),
+}).omit({
   id: true,
   scannedAt: true,
 });
 
+export const insertScanRunSchema = createInsertSchema(scanRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  type: jobTypeEnum,
+  payload: z.record(z.unknown()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+});
+
+export const insertAiUsageSchema = createInsertSchema(aiUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPageSnapshotSchema = createInsertSchema(pageSnapshots, {
+  kind: pageSnapshotKindEnum,
+  listingIds: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  capturedAt: true,
+});
+
+export const insertFilteredListingSchema = createInsertSchema(filteredListings, {
+  rule: filterRuleEnum,
+}).omit({
+  id: true,
+  filteredAt: true,
+});
+
+export const insertMetalPriceSchema = createInsertSchema(metalPrices, {
+  metal: metalEnum,
+  pricePerGram: z.string().regex(/^\d+(\.\d{1,4})?$/, "Expected a price per gram like 61.25"),
+  source: metalPriceSourceEnum.optional(),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertScraperAlertSchema = createInsertSchema(scraperAlerts, {
+  kind: scraperAlertKindEnum,
+}).omit({
+  id: true,
+  createdAt: true,
+  resolvedAt: true,
+});
+
+const moneySchema = z.string().regex(/^\d+(\.\d{1,2})?$/, "Expected an amount like 12.50");
+
+export const insertPurchaseSchema = createInsertSchema(purchases, {
+  purchasePrice: moneySchema,
+  shippingCost: moneySchema.optional(),
+  buyerProtectionFee: moneySchema.optional(),
+  resalePrice: moneySchema.nullable().optional(),
+  resaleFees: moneySchema.optional(),
+  weightGrams: moneySchema.nullable().optional(),
+  purchasedAt: z.coerce.date().optional(),
+  soldAt: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type SearchQuery = typeof searchQueries.$inferSelect;
 export type InsertSearchQuery = z.infer<typeof insertSearchQuerySchema>;
+export type SearchQueryWithSchedule = SearchQuery & { nextScanAt: Date | null };
 
 export type AnalyzedListing = typeof analyzedListings.$inferSelect;
 export type InsertAnalyzedListing = z.infer<typeof insertAnalyzedListingSchema>;
@@ -92,5 +558,121 @@ export type InsertAnalyzedListing = z.infer<typeof insertAnalyzedListingSchema>;
 export type Finding = typeof findings.$inferSelect;
 export type InsertFinding = z.infer<typeof insertFindingSchema>;
 
+export type FindingStatusHistory = typeof findingStatusHistory.$inferSelect;
+export type InsertFindingStatusHistory = z.infer<typeof insertFindingStatusHistorySchema>;
+
 export type ManualScan = typeof manualScans.$inferSelect;
 export type InsertManualScan = z.infer<typeof insertManualScanSchema>;
+
+export type ScanRun = typeof scanRuns.$inferSelect;
+export type InsertScanRun = z.infer<typeof insertScanRunSchema>;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
+export type MetalPrice = typeof metalPrices.$inferSelect;
+export type InsertMetalPrice = z.infer<typeof insertMetalPriceSchema>;
+
+export type Purchase = typeof purchases.$inferSelect;
+export type InsertPurchase = z.infer<typeof insertPurchaseSchema>;
+
+export type AiUsage = typeof aiUsage.$inferSelect;
+export type InsertAiUsage = z.infer<typeof insertAiUsageSchema>;
+
+export type PageSnapshot = typeof pageSnapshots.$inferSelect;
+export type InsertPageSnapshot = z.infer<typeof insertPageSnapshotSchema>;
+// Listing view of a snapshot, without the page itself
+export type PageSnapshotSummary = Omit<PageSnapshot, 'html'>;
+
+export type FilteredListing = typeof filteredListings.$inferSelect;
+export type InsertFilteredListing = z.infer<typeof insertFilteredListingSchema>;
+
+export type ScraperAlert = typeof scraperAlerts.$inferSelect;
+export type InsertScraperAlert = z.infer<typeof insertScraperAlertSchema>;
+// Listing view of an alert: without the page, with the search's label
+export type ScraperAlertSummary = Omit<ScraperAlert, 'rawPage'> & { searchLabel: string; hasRawPage: boolean };
+
+export interface AiSpend {
+  calls: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface AiUsageSummary {
+  today: AiSpend;
+  month: AiSpend;
+  budget: {
+    dailyLimitUsd: number | null;
+    monthlyLimitUsd: number | null;
+    exceeded: boolean;
+    pausedUntil: string | null;
+  };
+  perSearch: {
+    searchQueryId: string | null;
+    searchLabel: string | null;
+    calls: number;
+    costUsd: number;
+    findings: number;
+    costPerFinding: number | null;
+  }[];
+}
+
+// Per triage decision: listings, and how many the vision stage found valuable
+export interface TriageBucket {
+  listings: number;
+  finds: number;
+}
+
+export interface TriageStats {
+  mode: TriageMode;
+  minScore: number;
+  shadowRate: number;
+  escalated: TriageBucket;
+  dropped: TriageBucket; // finds is always 0: dropped listings never reach vision
+  shadow: TriageBucket;
+  // Share of shadow samples that were real finds, projected onto all dropped listings
+  missRate: number | null;
+  estimatedMissedFinds: number | null;
+}
+
+// GET /api/findings query parameters
+export const findingSortEnum = z.enum(['foundAt', 'confidence', 'price']);
+export type FindingSort = z.infer<typeof findingSortEnum>;
+
+export const findingsQuerySchema = z.object({
+  material: z.string().optional(),
+  minConfidence: z.coerce.number().int().min(0).max(100).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  searchQueryId: z.string().optional(),
+  source: marketplaceSourceEnum.optional(),
+  status: findingStatusEnum.optional(),
+  foundFrom: z.coerce.date().optional(),
+  foundTo: z.coerce.date().optional(),
+  q: z.string().trim().min(1).optional(),
+  sort: findingSortEnum.default('foundAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  cursor: z.string().optional(), // Opaque: the id of the last finding on the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+export type FindingsQuery = z.infer<typeof findingsQuerySchema>;
+
+export interface FindingsPage {
+  items: Finding[];
+  nextCursor: string | null;
+}
+
+export interface ProfitStats {
+  purchases: number;
+  sold: number;
+  totalCost: number; // purchase price + shipping + buyer protection, all purchases
+  revenue: number; // resale price - resale fees, sold purchases only
+  profit: number; // revenue - cost of the sold purchases
+  roi: number | null; // profit / cost of the sold purchases
+}
+
+export interface PurchaseSummary {
+  total: ProfitStats;
+  perSearch: (ProfitStats & { searchQueryId: string | null; searchLabel: string | null })[];
+  perMaterial: (ProfitStats & { material: string })[];
+}
@@ -0,0 +1,41 @@
+// Vinted runs a separate site per country. Each search URL belongs to one of
+// these domains, which decides cookies, listing links, currency and language.
+
+export interface VintedDomain {
+  host: string; // e.g. "vinted.fr" (no "www.")
+  country: string; // ISO 3166-1 alpha-2, as used by the country cookie
+  currency: string; // ISO 4217, for prices shown without a currency marker
+  acceptLanguage: string;
+}
+
+export const VINTED_DOMAINS: Record<string, VintedDomain> = {
+  'vinted.nl': { host: 'vinted.nl', country: 'NL', currency: 'EUR', acceptLanguage: 'nl-NL,nl;q=0.9,en;q=0.8' },
+  'vinted.be': { host: 'vinted.be', country: 'BE', currency: 'EUR', acceptLanguage: 'nl-BE,nl;q=0.9,fr-BE;q=0.8,fr;q=0.7,en;q=0.6' },
+  'vinted.fr': { host: 'vinted.fr', country: 'FR', currency: 'EUR', acceptLanguage: 'fr-FR,fr;q=0.9,en;q=0.8' },
+  'vinted.de': { host: 'vinted.de', country: 'DE', currency: 'EUR', acceptLanguage: 'de-DE,de;q=0.9,en;q=0.8' },
+  'vinted.at': { host: 'vinted.at', country: 'AT', currency: 'EUR', acceptLanguage: 'de-AT,de;q=0.9,en;q=0.8' },
+  'vinted.lu': { host: 'vinted.lu', country: 'LU', currency: 'EUR', acceptLanguage: 'fr-LU,fr;q=0.9,de;q=0.8,en;q=0.7' },
+  'vinted.es': { host: 'vinted.es', country: 'ES', currency: 'EUR', acceptLanguage: 'es-ES,es;q=0.9,en;q=0.8' },
+  'vinted.it': { host: 'vinted.it', country: 'IT', currency: 'EUR', acceptLanguage: 'it-IT,it;q=0.9,en;q=0.8' },
+  'vinted.pl': { host: 'vinted.pl', country: 'PL', currency: 'PLN', acceptLanguage: 'pl-PL,pl;q=0.9,en;q=0.8' },
+  'vinted.co.uk': { host: 'vinted.co.uk', country: 'GB', currency: 'GBP', acceptLanguage: 'en-GB,en;q=0.9' },
+};
+
+export const DEFAULT_VINTED_DOMAIN = 'vinted.nl';
+
+/**
+ * Resolve the Vinted domain of a URL ("https://www.vinted.fr/catalog?..." -> vinted.fr).
+ * Returns null for non-Vinted or unsupported country sites.
+ */
+export function getVintedDomain(url: string): VintedDomain | null {
+  try {
+    const host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    return VINTED_DOMAINS[host] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function vintedOrigin(domain: VintedDomain): string {
+  return `https://www.${domain.host}`;
+}